@@ -8,18 +8,29 @@
 import * as PIXI from 'pixi.js';
 import { SceneManager } from './systems/SceneManager';
 import { validateEnv } from './config/env';
-import { SCENE_NAMES } from './config/constants';
+import { API_CONFIG, GAME_CONFIG, SCENE_NAMES } from './config/constants';
 import { useAuthStore } from './state/authStore';
+import { useSyncQueueStore } from './state/syncQueueStore';
 
 // Import scenes
 import { MenuScene } from './scenes/MenuScene';
 import { OverworldScene } from './scenes/OverworldScene';
-// import { BattleScene } from './scenes/BattleScene';
+import { BattleScene } from './scenes/BattleScene';
+import { TrainingBattleScene } from './scenes/TrainingBattleScene';
+import { ReplayScene } from './scenes/ReplayScene';
+import { BattleResultsScene } from './scenes/BattleResultsScene';
+import { LobbyScene } from './scenes/LobbyScene';
+import { PvpBattleScene } from './scenes/PvpBattleScene';
+import { QuizSelectScene } from './scenes/QuizSelectScene';
 import { QuizScene } from './scenes/QuizScene';
+import { PauseMenuScene } from './scenes/PauseMenuScene';
+import { PartyScene } from './scenes/PartyScene';
+import { DialogScene } from './scenes/DialogScene';
 
 export class Game {
   private app: PIXI.Application;
   private sceneManager: SceneManager;
+  private hasShownSessionExpired: boolean = false; // Dialog shown for the current expiry
 
   constructor() {
     // Validate environment configuration
@@ -82,6 +93,12 @@ export class Game {
     // Load authentication state from storage
     useAuthStore.getState().loadTokenFromStorage();
 
+    // Submit answers queued while offline: now, when the connection returns, and periodically
+    const flushSyncQueue = () => useSyncQueueStore.getState().flush();
+    window.addEventListener('online', flushSyncQueue);
+    setInterval(flushSyncQueue, API_CONFIG.SYNC_INTERVAL);
+    flushSyncQueue();
+
     // Start game loop
     this.app.ticker.add((ticker) => {
       const deltaTime = ticker.deltaTime / 60; // Convert to seconds
@@ -104,8 +121,19 @@ export class Game {
   private registerScenes(): void {
     this.sceneManager.registerScene(SCENE_NAMES.MENU, MenuScene);
     this.sceneManager.registerScene(SCENE_NAMES.OVERWORLD, OverworldScene);
-    // this.sceneManager.registerScene(SCENE_NAMES.BATTLE, BattleScene);
+    this.sceneManager.registerScene(SCENE_NAMES.BATTLE, BattleScene);
+    this.sceneManager.registerScene(SCENE_NAMES.TRAINING, TrainingBattleScene);
+    this.sceneManager.registerScene(SCENE_NAMES.REPLAY, ReplayScene);
+    this.sceneManager.registerScene(SCENE_NAMES.BATTLE_RESULTS, BattleResultsScene);
+    this.sceneManager.registerScene(SCENE_NAMES.LOBBY, LobbyScene);
+    this.sceneManager.registerScene(SCENE_NAMES.PVP_BATTLE, PvpBattleScene);
+    this.sceneManager.registerScene(SCENE_NAMES.QUIZ_SELECT, QuizSelectScene);
     this.sceneManager.registerScene(SCENE_NAMES.QUIZ, QuizScene);
+
+    // Overlay scenes (opened with sceneManager.pushScene)
+    this.sceneManager.registerScene(SCENE_NAMES.PAUSE_MENU, PauseMenuScene);
+    this.sceneManager.registerScene(SCENE_NAMES.PARTY, PartyScene);
+    this.sceneManager.registerScene(SCENE_NAMES.DIALOG, DialogScene);
   }
 
   /**
@@ -113,6 +141,34 @@ export class Game {
    */
   private update(deltaTime: number): void {
     this.sceneManager.update(deltaTime);
+    this.checkSessionExpired();
+  }
+
+  /**
+   * Tell the player their session expired and send them to log in again
+   * (checked every frame: the dialog can't open while a scene is loading)
+   */
+  private checkSessionExpired(): void {
+    const { sessionExpired } = useAuthStore.getState();
+    if (!sessionExpired) {
+      this.hasShownSessionExpired = false;
+      return;
+    }
+    if (this.hasShownSessionExpired || this.sceneManager.isBusy()) return;
+
+    this.hasShownSessionExpired = true;
+    this.sceneManager.pushScene(SCENE_NAMES.DIALOG, {
+      title: 'SESSION EXPIRED',
+      message: 'You have been signed out. Log in again to keep playing - any quiz you were taking is saved and will pick up where you left off.',
+      buttons: [
+        {
+          text: 'LOG IN',
+          color: GAME_CONFIG.COLORS.PRIMARY,
+          onSelect: () => this.sceneManager.loadScene(SCENE_NAMES.MENU),
+        },
+      ],
+      dismissible: false,
+    });
   }
 
   /**
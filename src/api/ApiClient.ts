@@ -3,20 +3,64 @@
  *
  * Central HTTP client for communicating with the Laravel backend.
  * Handles authentication, timeouts, retries, and error handling.
+ *
+ * Retries: network failures, timeouts and 408/429/5xx responses are retried
+ * with exponential backoff and jitter (Retry-After is honoured on 429/503).
+ * Only idempotent methods are retried; a POST is retried only when it
+ * carries an Idempotency-Key, which must only be sent to endpoints the
+ * backend de-duplicates on that header.
  */
 
 import { ENV } from '../config/env';
-import { STORAGE_KEYS } from '../config/constants';
+import { API_CONFIG, STORAGE_KEYS } from '../config/constants';
+import { LocalApiServer } from './LocalApiServer';
 import { ApiError } from './types';
 
+/**
+ * Satisfied by window.fetch and by LocalApiServer.fetch
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface ApiClientOptions {
+  fetch?: FetchLike; // Transport (default: window.fetch)
+  maxRetries?: number; // Default: API_CONFIG.MAX_RETRIES
+  retryBaseDelay?: number; // ms, default: API_CONFIG.RETRY_BASE_DELAY
+  retryMaxDelay?: number; // ms, default: API_CONFIG.RETRY_MAX_DELAY
+}
+
+export interface ApiRequestOptions extends RequestInit {
+  idempotencyKey?: string; // Sent as Idempotency-Key; makes a POST safe to retry
+  maxRetries?: number; // Override the client's retry count for this request
+}
+
+/**
+ * Network failures, timeouts and 408/429/5xx responses - the request may
+ * succeed later, unlike a 4xx the server meant
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return (API_CONFIG.RETRY_STATUSES as readonly number[]).includes(error.statusCode);
+  }
+  return true;
+}
+
 export class ApiClient {
   private baseURL: string;
   private timeout: number;
   private token: string | null = null;
+  private fetchFn: FetchLike;
+  private maxRetries: number;
+  private retryBaseDelay: number;
+  private retryMaxDelay: number;
+  private unauthorizedListeners: Set<() => void> = new Set();
 
-  constructor() {
+  constructor(options: ApiClientOptions = {}) {
     this.baseURL = ENV.API_URL;
     this.timeout = ENV.API_TIMEOUT;
+    this.fetchFn = options.fetch ?? ((url, init) => fetch(url, init));
+    this.maxRetries = options.maxRetries ?? API_CONFIG.MAX_RETRIES;
+    this.retryBaseDelay = options.retryBaseDelay ?? API_CONFIG.RETRY_BASE_DELAY;
+    this.retryMaxDelay = options.retryMaxDelay ?? API_CONFIG.RETRY_MAX_DELAY;
     this.loadToken();
   }
 
@@ -49,6 +93,16 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Listen for the session ending: a request sent with a token got a 401
+   * (the token has already been cleared when listeners run)
+   * @returns Function that removes the listener
+   */
+  onUnauthorized(listener: () => void): () => void {
+    this.unauthorizedListeners.add(listener);
+    return () => this.unauthorizedListeners.delete(listener);
+  }
+
   /**
    * Load token from localStorage on initialization
    */
@@ -60,12 +114,41 @@ export class ApiClient {
   }
 
   /**
-   * Make an HTTP request to the API
+   * Make an HTTP request to the API, retrying transient failures
    * @param endpoint - Relative endpoint path (e.g., '/api/auth/login')
-   * @param options - Fetch options
+   * @param options - Fetch options plus idempotency key / retry override
    * @returns Promise with typed response data
    */
-  async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  async request<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> {
+    const { idempotencyKey, maxRetries = this.maxRetries, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    const canRetry = (API_CONFIG.IDEMPOTENT_METHODS as readonly string[]).includes(method) || !!idempotencyKey;
+
+    if (idempotencyKey) {
+      init.headers = { ...(init.headers as Record<string, string>), 'Idempotency-Key': idempotencyKey };
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(endpoint, init);
+      } catch (error) {
+        if (!canRetry || attempt >= maxRetries || !isTransientError(error)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(attempt, error);
+        if (ENV.DEBUG) {
+          console.warn(`[API] ${method} ${endpoint} failed, retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+        }
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Make a single HTTP request (no retries)
+   */
+  private async send<T>(endpoint: string, options: RequestInit): Promise<T> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
@@ -87,7 +170,7 @@ export class ApiClient {
         console.log(`[API] ${options.method || 'GET'} ${url}`);
       }
 
-      const response = await fetch(url, {
+      const response = await this.fetchFn(url, {
         ...options,
         headers,
         signal: controller.signal,
@@ -104,15 +187,24 @@ export class ApiClient {
           console.error(`[API] Error ${response.status}:`, data);
         }
 
-        // Special handling for 401 (Unauthorized) - clear token
-        if (response.status === 401) {
+        // Special handling for 401 (Unauthorized) - the session is over,
+        // clear the token and let the app know (a failed login isn't an expiry)
+        if (response.status === 401 && headers['Authorization']) {
           this.clearToken();
+          this.unauthorizedListeners.forEach((listener) => {
+            try {
+              listener();
+            } catch (listenerError) {
+              console.error('[API] Unauthorized listener failed:', listenerError);
+            }
+          });
         }
 
         throw new ApiError(
           data.message || 'API request failed',
           response.status,
-          data.errors
+          data.errors,
+          this.parseRetryAfter(response.headers.get('Retry-After'))
         );
       }
 
@@ -138,6 +230,35 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Retry-After if the server sent one (429/503), otherwise exponential
+   * backoff with jitter so clients on the same network don't retry in lockstep
+   * @param attempt - Retries already made (0 for the first retry)
+   */
+  private getRetryDelay(attempt: number, error: unknown): number {
+    if (error instanceof ApiError && error.retryAfter !== undefined) {
+      return Math.min(error.retryAfter, this.retryMaxDelay);
+    }
+
+    const delay = Math.min(this.retryBaseDelay * Math.pow(2, attempt), this.retryMaxDelay);
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  /**
+   * Retry-After header (seconds or HTTP date) in ms
+   */
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
   /**
    * Convenience method for GET requests
    */
@@ -147,11 +268,13 @@ export class ApiClient {
 
   /**
    * Convenience method for POST requests
+   * @param options - Pass an idempotencyKey to let the request be retried
    */
-  async post<T>(endpoint: string, data?: any): Promise<T> {
+  async post<T>(endpoint: string, data?: any, options: Pick<ApiRequestOptions, 'idempotencyKey'> = {}): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
+      ...options,
     });
   }
 
@@ -173,5 +296,14 @@ export class ApiClient {
   }
 }
 
-// Export singleton instance
-export const apiClient = new ApiClient();
+// Export singleton instance (served locally when VITE_USE_MOCK_API=true)
+export const apiClient = new ApiClient(
+  ENV.USE_MOCK_API
+    ? {
+      fetch: new LocalApiServer({
+        latency: ENV.MOCK_API_LATENCY,
+        failureRate: ENV.MOCK_API_FAILURE_RATE,
+      }).fetch,
+    }
+    : {}
+);
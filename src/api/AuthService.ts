@@ -9,6 +9,8 @@
 
 import { apiClient } from './ApiClient';
 import { API_ENDPOINTS } from '../config/apiEndpoints';
+import { validateResponse } from './validation';
+import * as schemas from './responseSchemas';
 import type {
   RegisterRequest,
   RegisterResponse,
@@ -24,9 +26,10 @@ export class AuthService {
    * @returns Promise with user data and authentication token
    */
   async register(data: RegisterRequest): Promise<RegisterResponse> {
-    const response = await apiClient.post<RegisterResponse>(
-      API_ENDPOINTS.auth.register,
-      data
+    const response = validateResponse<RegisterResponse>(
+      schemas.authResponse,
+      await apiClient.post<unknown>(API_ENDPOINTS.auth.register, data),
+      'RegisterResponse'
     );
 
     // Store token in API client
@@ -41,9 +44,10 @@ export class AuthService {
    * @returns Promise with user data and authentication token
    */
   async login(credentials: LoginRequest): Promise<LoginResponse> {
-    const response = await apiClient.post<LoginResponse>(
-      API_ENDPOINTS.auth.login,
-      credentials
+    const response = validateResponse<LoginResponse>(
+      schemas.authResponse,
+      await apiClient.post<unknown>(API_ENDPOINTS.auth.login, credentials),
+      'LoginResponse'
     );
 
     // Store token in API client
@@ -57,8 +61,10 @@ export class AuthService {
    * @returns Promise with logout confirmation
    */
   async logout(): Promise<LogoutResponse> {
-    const response = await apiClient.post<LogoutResponse>(
-      API_ENDPOINTS.auth.logout
+    const response = validateResponse<LogoutResponse>(
+      schemas.logoutResponse,
+      await apiClient.post<unknown>(API_ENDPOINTS.auth.logout),
+      'LogoutResponse'
     );
 
     // Clear token from API client
@@ -0,0 +1,88 @@
+/**
+ * Battle Service
+ *
+ * Handles all battle-related API calls:
+ * - Starting battles
+ * - Fetching battle state
+ * - Submitting move selections
+ * - Forfeiting
+ * - Catching wild Siblons
+ */
+
+import { apiClient } from './ApiClient';
+import { API_ENDPOINTS } from '../config/apiEndpoints';
+import { validateResponse } from './validation';
+import * as schemas from './responseSchemas';
+import type {
+  StartBattleRequest,
+  StartBattleResponse,
+  BattleState,
+  SubmitBattleActionRequest,
+  SubmitBattleActionResponse,
+  ForfeitBattleResponse,
+  CatchSiblonRequest,
+  CatchSiblonResponse,
+} from './types';
+
+export class BattleService {
+  /**
+   * Start a new battle
+   * @param data - Siblon to battle with, battle type and optional opponent (PvP)
+   * @returns Promise with battle ID and initial combatants
+   */
+  async startBattle(data: StartBattleRequest): Promise<StartBattleResponse> {
+    const response = await apiClient.post<unknown>(API_ENDPOINTS.battles.start, data);
+    return validateResponse(schemas.startBattleResponse, response, 'StartBattleResponse');
+  }
+
+  /**
+   * Get the current state of a battle
+   * @param battleId - UUID of the battle
+   * @returns Promise with full battle state including the log
+   */
+  async getState(battleId: string): Promise<BattleState> {
+    const response = await apiClient.get<unknown>(API_ENDPOINTS.battles.state(battleId));
+    return validateResponse(schemas.battleState, response, 'BattleState');
+  }
+
+  /**
+   * Submit the player's move for the current turn
+   * @param battleId - UUID of the battle
+   * @param action - Selected move
+   * @returns Promise with the battle state after the move resolves
+   */
+  async submitAction(
+    battleId: string,
+    action: SubmitBattleActionRequest
+  ): Promise<SubmitBattleActionResponse> {
+    const response = await apiClient.post<unknown>(
+      API_ENDPOINTS.battles.action(battleId),
+      action
+    );
+    return validateResponse(schemas.battleState, response, 'SubmitBattleActionResponse');
+  }
+
+  /**
+   * Forfeit an active battle (opponent is declared the winner)
+   * @param battleId - UUID of the battle
+   * @returns Promise with forfeit confirmation and winner
+   */
+  async forfeit(battleId: string): Promise<ForfeitBattleResponse> {
+    const response = await apiClient.post<unknown>(API_ENDPOINTS.battles.forfeit(battleId));
+    return validateResponse(schemas.forfeitBattleResponse, response, 'ForfeitBattleResponse');
+  }
+
+  /**
+   * Try to catch the wild Siblon after winning a PvE battle
+   * @param battleId - UUID of the battle
+   * @param request - How well the throw was timed
+   * @returns Promise with the catch result and the new Siblon
+   */
+  async catchSiblon(battleId: string, request: CatchSiblonRequest): Promise<CatchSiblonResponse> {
+    const response = await apiClient.post<unknown>(API_ENDPOINTS.battles.catch(battleId), request);
+    return validateResponse(schemas.catchSiblonResponse, response, 'CatchSiblonResponse');
+  }
+}
+
+// Export singleton instance
+export const battleService = new BattleService();
@@ -0,0 +1,724 @@
+/**
+ * Local API Server
+ *
+ * In-process stand-in for the Laravel backend so the whole game can be
+ * developed and demoed offline. ApiClient uses its fetch() instead of the
+ * browser's when VITE_USE_MOCK_API=true. Serves the same endpoints and
+ * response shapes as SERVER.md from fixture data (localApiFixtures.ts):
+ * - Auth (register, login, logout) with Sanctum-style bearer tokens
+ * - Player profile, Siblons and daily activity
+ * - Quizzes, attempts (max_attempts enforced) and server-side grading
+ * - PvE battles, run by the same engine as training battles, and catching
+ * - PvP battles against the fixture classmate, who plays like the AI
+ * - Channel auth for the local Reverb server (see LocalReverbServer)
+ *
+ * Responses are delayed by a randomised latency, and the same error
+ * statuses and messages as the real server are returned (401, 403, 404, 422).
+ * State lives in memory: registered accounts are lost on reload, the demo
+ * account (demo@siblo.test / password123) is always there.
+ */
+
+import {
+  CLASSMATE_ACCOUNT,
+  DEMO_ACCOUNT,
+  LOCAL_REVERB_KEY,
+  QUIZZES,
+  STARTER_SIBLONS,
+  WILD_SPECIES_IDS,
+  createFixtureSiblon,
+  signLocalChannel,
+  type FixtureAccount,
+  type FixtureQuiz,
+} from './localApiFixtures';
+import { TrainingBattleEngine, createCombatantFromSiblon } from '../systems/TrainingBattleEngine';
+import { calculateBattleRewards } from '../systems/BattleRewards';
+import { GAME_CONFIG } from '../config/constants';
+import type {
+  Answer,
+  AuthResponse,
+  BattleRewards,
+  BattleType,
+  BroadcastingAuthRequest,
+  BroadcastingAuthResponse,
+  BattleState,
+  CatchSiblonRequest,
+  CatchSiblonResponse,
+  DailyActivity,
+  ForfeitBattleResponse,
+  LoginRequest,
+  PlayerProfile,
+  PlayerSiblon,
+  Quiz,
+  QuizAnswerResult,
+  RegisterRequest,
+  SiblonsResponse,
+  StartBattleRequest,
+  StartBattleResponse,
+  StartQuizResponse,
+  SubmitBattleActionRequest,
+  SubmitQuizRequest,
+  SubmitQuizResponse,
+  ValidationErrors,
+} from './types';
+
+export interface LocalApiServerOptions {
+  latency?: number; // Average response delay in ms (default: 300)
+  failureRate?: number; // 0-1 chance any request fails with a 503 (default: 0)
+}
+
+interface LocalUser {
+  account: FixtureAccount;
+  profile: PlayerProfile;
+  siblons: PlayerSiblon[];
+  activity: DailyActivity;
+}
+
+interface LocalQuizAttempt {
+  id: number;
+  quizId: number;
+  userId: number;
+  startedAt: number; // ms
+  expiresAt: number | null; // ms
+  submitted: boolean;
+}
+
+interface LocalBattle {
+  id: string;
+  userId: number;
+  battleType: BattleType;
+  engine: TrainingBattleEngine;
+  playerSiblon: PlayerSiblon;
+  opponentSiblon: PlayerSiblon; // Wild Siblon (PvE) or the classmate's (PvP)
+  rewards: BattleRewards | null;
+  isFinished: boolean; // Result recorded (rewards, activity)
+}
+
+interface RouteContext {
+  params: string[];
+  body: Record<string, unknown>; // Parsed JSON request body (unvalidated)
+  user: LocalUser;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  isPublic?: boolean; // No bearer token needed
+  status?: number; // Success status (default: 200)
+  handle: (context: RouteContext) => unknown;
+}
+
+/**
+ * Error response (Laravel's { message, errors? } body)
+ */
+class LocalApiError extends Error {
+  public status: number;
+  public errors?: ValidationErrors;
+
+  constructor(message: string, status: number, errors?: ValidationErrors) {
+    super(message);
+    this.name = 'LocalApiError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+const XP_PER_LEVEL = 1000; // Player level goes up every 1000 XP
+const RETRY_REWARD_MULTIPLIER = 0.5; // SIBLO.md "Reduced rewards on retries"
+
+export class LocalApiServer {
+  private latency: number;
+  private failureRate: number;
+  private users: Map<number, LocalUser> = new Map();
+  private revokedTokens: Set<string> = new Set();
+  private attempts: Map<number, LocalQuizAttempt> = new Map();
+  private battles: Map<string, LocalBattle> = new Map();
+  private idempotentResponses: Map<string, { status: number; data: unknown }> = new Map(); // "userId:key"
+  private routes: Route[];
+  private nextUserId: number = CLASSMATE_ACCOUNT.user.id + 1;
+  private nextSiblonId: number = 1;
+  private nextAttemptId: number = 1;
+
+  constructor(options: LocalApiServerOptions = {}) {
+    this.latency = options.latency ?? 300;
+    this.failureRate = options.failureRate ?? 0;
+
+    this.addUser(DEMO_ACCOUNT);
+    this.addUser(CLASSMATE_ACCOUNT);
+
+    this.routes = [
+      { method: 'POST', pattern: /^\/api\/auth\/register$/, isPublic: true, status: 201, handle: this.register },
+      { method: 'POST', pattern: /^\/api\/auth\/login$/, isPublic: true, handle: this.login },
+      { method: 'POST', pattern: /^\/api\/auth\/logout$/, handle: this.logout },
+      { method: 'GET', pattern: /^\/api\/player\/profile$/, handle: ({ user }) => user.profile },
+      { method: 'GET', pattern: /^\/api\/player\/siblons$/, handle: this.getSiblons },
+      { method: 'GET', pattern: /^\/api\/player\/daily-activity$/, handle: ({ user }) => user.activity },
+      { method: 'GET', pattern: /^\/api\/quizzes$/, handle: this.listQuizzes },
+      { method: 'GET', pattern: /^\/api\/quizzes\/(\d+)$/, handle: this.getQuiz },
+      { method: 'POST', pattern: /^\/api\/quizzes\/(\d+)\/start$/, handle: this.startQuiz },
+      { method: 'POST', pattern: /^\/api\/quiz-attempts\/(\d+)\/submit$/, handle: this.submitQuiz },
+      { method: 'POST', pattern: /^\/api\/battles\/start$/, handle: this.startBattle },
+      { method: 'GET', pattern: /^\/api\/battles\/([\w-]+)$/, handle: this.getBattle },
+      { method: 'POST', pattern: /^\/api\/battles\/([\w-]+)\/action$/, handle: this.submitAction },
+      { method: 'POST', pattern: /^\/api\/battles\/([\w-]+)\/forfeit$/, handle: this.forfeitBattle },
+      { method: 'POST', pattern: /^\/api\/battles\/([\w-]+)\/catch$/, handle: this.catchSiblon },
+      { method: 'POST', pattern: /^\/broadcasting\/auth$/, handle: this.authorizeChannel },
+    ];
+  }
+
+  /**
+   * Drop-in replacement for window.fetch (only JSON requests to API routes)
+   */
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const path = new URL(url, 'http://local-api').pathname;
+
+    await this.delay(init.signal);
+
+    try {
+      if (Math.random() < this.failureRate) {
+        return this.respond(503, { message: 'Service temporarily unavailable.' }, { 'Retry-After': '1' });
+      }
+
+      for (const route of this.routes) {
+        const match = route.method === method ? route.pattern.exec(path) : null;
+        if (!match) continue;
+
+        const user = this.authenticate(init.headers);
+        if (!route.isPublic && !user) {
+          throw new LocalApiError('Unauthenticated.', 401);
+        }
+
+        // A repeated Idempotency-Key replays the first successful response
+        const idempotencyKey = new Headers(init.headers).get('Idempotency-Key');
+        const replayKey = idempotencyKey && user ? `${user.account.user.id}:${idempotencyKey}` : null;
+        const replay = replayKey ? this.idempotentResponses.get(replayKey) : undefined;
+        if (replay) {
+          return this.respond(replay.status, replay.data);
+        }
+
+        const body = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+        const data = route.handle({ params: match.slice(1), body, user: user! });
+        const status = route.status ?? 200;
+        if (replayKey) {
+          this.idempotentResponses.set(replayKey, { status, data });
+        }
+        return this.respond(status, data);
+      }
+
+      throw new LocalApiError(`The route ${path.replace(/^\//, '')} could not be found.`, 404);
+    } catch (error) {
+      if (error instanceof LocalApiError) {
+        return this.respond(error.status, { message: error.message, errors: error.errors });
+      }
+
+      console.error('[LocalApiServer] Handler failed:', error);
+      return this.respond(500, { message: 'Server Error' });
+    }
+  };
+
+  // ===========================================
+  // Auth
+  // ===========================================
+
+  private register = ({ body }: RouteContext): AuthResponse => {
+    const request = body as Partial<RegisterRequest>;
+    const errors: ValidationErrors = {};
+    for (const field of ['name', 'username', 'email', 'password', 'trainer_name'] as const) {
+      if (!request[field]) {
+        errors[field] = [`The ${field.replace('_', ' ')} field is required.`];
+      }
+    }
+    if (request.password && request.password.length < 8) {
+      errors.password = ['The password field must be at least 8 characters.'];
+    } else if (request.password && request.password !== request.password_confirmation) {
+      errors.password = ['The password field confirmation does not match.'];
+    }
+    if (this.findUserByEmail(request.email)) {
+      errors.email = ['The email has already been taken.'];
+    }
+    if ([...this.users.values()].some(u => u.account.user.username === request.username)) {
+      errors.username = ['The username has already been taken.'];
+    }
+    this.throwIfInvalid(errors);
+
+    const user = this.addUser({
+      user: {
+        id: this.nextUserId++,
+        username: request.username!,
+        name: request.name!,
+        email: request.email!,
+        user_type: 'student',
+      },
+      password: request.password!,
+      trainer_name: request.trainer_name!,
+    });
+
+    return {
+      message: 'Registration successful! Welcome to SIBLO.',
+      user: user.account.user,
+      token: this.issueToken(user),
+    };
+  };
+
+  private login = ({ body }: RouteContext): AuthResponse => {
+    const request = body as Partial<LoginRequest>;
+    const user = this.findUserByEmail(request.email);
+    if (!user || user.account.password !== request.password) {
+      throw new LocalApiError('Invalid credentials.', 401);
+    }
+
+    return {
+      message: 'Login successful!',
+      user: user.account.user,
+      token: this.issueToken(user),
+    };
+  };
+
+  private logout = ({ user }: RouteContext) => {
+    this.revokedTokens.add(this.tokenFor(user.account.user.id));
+    return { message: 'Logged out successfully.' };
+  };
+
+  // ===========================================
+  // Player
+  // ===========================================
+
+  private getSiblons = ({ user }: RouteContext): SiblonsResponse => {
+    return {
+      party: user.siblons.filter(s => s.is_in_party),
+      collection: user.siblons,
+      total_count: user.siblons.length,
+    };
+  };
+
+  // ===========================================
+  // Quizzes
+  // ===========================================
+
+  private listQuizzes = (): { quizzes: Quiz[] } => {
+    return {
+      quizzes: QUIZZES.filter(q => q.is_published).map(({ detail, is_featured }) => ({
+        id: detail.id,
+        title: detail.title,
+        description: detail.description,
+        subject: detail.subject,
+        topic: detail.topic,
+        difficulty_level: detail.difficulty_level,
+        time_limit_minutes: detail.time_limit_minutes,
+        max_attempts: detail.max_attempts,
+        pass_threshold: detail.pass_threshold,
+        question_count: detail.questions.length,
+        is_featured,
+      })),
+    };
+  };
+
+  private getQuiz = ({ params }: RouteContext) => {
+    return structuredClone(this.findQuiz(Number(params[0])).detail);
+  };
+
+  private startQuiz = ({ params, user }: RouteContext): StartQuizResponse => {
+    const quiz = this.findQuiz(Number(params[0]));
+    const userId = user.account.user.id;
+
+    const used = [...this.attempts.values()]
+      .filter(a => a.quizId === quiz.detail.id && a.userId === userId).length;
+    if (quiz.detail.max_attempts !== null && used >= quiz.detail.max_attempts) {
+      throw new LocalApiError('You have reached the maximum number of attempts for this quiz.', 403);
+    }
+
+    const startedAt = Date.now();
+    const attempt: LocalQuizAttempt = {
+      id: this.nextAttemptId++,
+      quizId: quiz.detail.id,
+      userId,
+      startedAt,
+      expiresAt: quiz.detail.time_limit_minutes ? startedAt + quiz.detail.time_limit_minutes * 60 * 1000 : null,
+      submitted: false,
+    };
+    this.attempts.set(attempt.id, attempt);
+
+    return {
+      attempt_id: attempt.id,
+      quiz_id: attempt.quizId,
+      started_at: new Date(attempt.startedAt).toISOString(),
+      expires_at: attempt.expiresAt ? new Date(attempt.expiresAt).toISOString() : null,
+    };
+  };
+
+  private submitQuiz = ({ params, body, user }: RouteContext): SubmitQuizResponse => {
+    const userId = user.account.user.id;
+    const attempt = this.attempts.get(Number(params[0]));
+    if (!attempt || attempt.userId !== userId) {
+      throw new LocalApiError('Quiz attempt not found.', 404);
+    }
+    if (attempt.submitted) {
+      throw new LocalApiError('This quiz attempt has already been submitted.', 403);
+    }
+    const request = body as Partial<SubmitQuizRequest>;
+    if (!Array.isArray(request.answers)) {
+      throw new LocalApiError('The answers field is required.', 422, { answers: ['The answers field is required.'] });
+    }
+
+    const quiz = this.findQuiz(attempt.quizId);
+    const submitted = new Map<number, Partial<Answer>>(
+      request.answers.map(answer => [answer.question_id, answer])
+    );
+
+    const answers: QuizAnswerResult[] = quiz.detail.questions.map((question) => {
+      const key = quiz.answer_key[question.id];
+      const answer = submitted.get(question.id);
+
+      let isCorrect: boolean;
+      if (question.question_type === 'fill_blank') {
+        const typed = answer?.text_answer?.trim().toLowerCase() ?? '';
+        isCorrect = (key?.accepted_text ?? []).some(text => text.toLowerCase() === typed);
+      } else {
+        const selected = [...(answer?.selected_choice_ids ?? [])].sort((a, b) => a - b);
+        const correct = [...(key?.choice_ids ?? [])].sort((a, b) => a - b);
+        isCorrect = selected.length === correct.length && selected.every((id, i) => id === correct[i]);
+      }
+
+      return {
+        question_id: question.id,
+        is_correct: isCorrect,
+        correct_answer: key?.choice_ids ?? [],
+        correct_text: key?.accepted_text?.[0] ?? null,
+        points_earned: isCorrect ? question.points : 0,
+        explanation: key?.explanation ?? null,
+      };
+    });
+
+    const score = answers.reduce((sum, a) => sum + a.points_earned, 0);
+    const maxScore = quiz.detail.questions.reduce((sum, q) => sum + q.points, 0);
+    const percentage = maxScore > 0 ? Math.round((score / maxScore) * 1000) / 10 : 0;
+    const passed = percentage >= quiz.detail.pass_threshold;
+
+    // Retries earn half
+    const isRetry = [...this.attempts.values()].some(
+      a => a.submitted && a.quizId === attempt.quizId && a.userId === userId
+    );
+    const multiplier = isRetry ? RETRY_REWARD_MULTIPLIER : 1;
+    const experience = Math.floor((passed ? 100 : 25) * (percentage / 100 + 0.5) * multiplier);
+    const coins = Math.floor(experience / 2);
+
+    attempt.submitted = true;
+    this.grantRewards(user, experience, coins);
+    user.activity.quizzes_completed++;
+
+    return {
+      score,
+      max_score: maxScore,
+      percentage,
+      passed,
+      time_taken: Math.round((Date.now() - attempt.startedAt) / 1000),
+      rewards: { experience_points: experience, coins, items: [] },
+      answers,
+    };
+  };
+
+  // ===========================================
+  // Battles
+  // ===========================================
+
+  private startBattle = ({ body, user }: RouteContext): StartBattleResponse => {
+    const request = body as Partial<StartBattleRequest>;
+    if (!request.player_siblon_id) {
+      this.throwIfInvalid({ player_siblon_id: ['The player siblon id field is required.'] });
+    }
+    if (request.battle_type !== 'pve' && request.battle_type !== 'pvp') {
+      this.throwIfInvalid({ battle_type: ['The selected battle type is invalid.'] });
+    }
+
+    const playerSiblon = user.siblons.find(s => s.id === request.player_siblon_id);
+    if (!playerSiblon) {
+      throw new LocalApiError('This Siblon does not belong to you.', 403);
+    }
+
+    let opponentSiblon: PlayerSiblon;
+    let opponentTrainer: { userId: number | null; trainerName: string };
+
+    if (request.battle_type === 'pvp') {
+      const opponent = this.users.get(Number(request.opponent_id));
+      if (!opponent || opponent === user) {
+        this.throwIfInvalid({ opponent_id: ['The selected opponent id is invalid.'] });
+      }
+
+      // The Siblon they picked in the lobby, or their lead
+      const picked = opponent!.siblons.find(s => s.id === request.opponent_siblon_id)
+        ?? opponent!.siblons.find(s => s.is_in_party);
+      if (!picked) {
+        this.throwIfInvalid({ opponent_id: ['Your opponent has no Siblon to battle with.'] });
+      }
+      opponentSiblon = picked!;
+      opponentTrainer = { userId: opponent!.account.user.id, trainerName: opponent!.profile.trainer_name };
+    } else {
+      // A wild Siblon around the player's level
+      const speciesId = WILD_SPECIES_IDS[Math.floor(Math.random() * WILD_SPECIES_IDS.length)];
+      const wildLevel = Math.max(1, playerSiblon.level + Math.floor(Math.random() * 4) - 2);
+      opponentSiblon = createFixtureSiblon(0, speciesId, wildLevel, { isInParty: false });
+      opponentTrainer = { userId: null, trainerName: 'The wild' };
+    }
+
+    const engine = new TrainingBattleEngine(
+      createCombatantFromSiblon(playerSiblon, {
+        userId: user.account.user.id,
+        trainerName: user.profile.trainer_name,
+      }),
+      createCombatantFromSiblon(opponentSiblon, opponentTrainer)
+    );
+
+    const battle: LocalBattle = {
+      id: crypto.randomUUID(),
+      userId: user.account.user.id,
+      battleType: request.battle_type!,
+      engine,
+      playerSiblon,
+      opponentSiblon,
+      rewards: null,
+      isFinished: false,
+    };
+    this.battles.set(battle.id, battle);
+
+    const state = this.getBattleState(battle);
+    return {
+      battle_id: state.battle_id,
+      player1: state.player1,
+      player2: state.player2,
+      current_turn: state.current_turn,
+      turn_player_id: state.turn_player_id,
+      status: state.status,
+    };
+  };
+
+  private getBattle = ({ params, user }: RouteContext): BattleState => {
+    return this.getBattleState(this.findBattle(params[0], user));
+  };
+
+  private submitAction = ({ params, body, user }: RouteContext): BattleState => {
+    const battle = this.findActiveBattle(params[0], user);
+    const request = body as Partial<SubmitBattleActionRequest>;
+    if (!request.move_id) {
+      throw new LocalApiError('The move id field is required.', 422, { move_id: ['The move id field is required.'] });
+    }
+
+    try {
+      battle.engine.submitMove(request.move_id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid move.';
+      this.throwIfInvalid({ move_id: [message] });
+    }
+
+    this.finishBattleIfOver(battle, user);
+    return this.getBattleState(battle);
+  };
+
+  private forfeitBattle = ({ params, user }: RouteContext): ForfeitBattleResponse => {
+    const battle = this.findActiveBattle(params[0], user);
+    const response = battle.engine.forfeit();
+    this.finishBattleIfOver(battle, user);
+
+    return { ...response, message: 'You forfeited the battle.', battle_id: battle.id };
+  };
+
+  private catchSiblon = ({ params, body, user }: RouteContext): CatchSiblonResponse => {
+    const battle = this.findBattle(params[0], user);
+    if (!battle.rewards?.can_catch) {
+      throw new LocalApiError('There is nothing to catch.', 400);
+    }
+
+    // One throw per battle; a well-timed throw nearly always works
+    battle.rewards = { ...battle.rewards, can_catch: false };
+    const quality = Math.max(0, Math.min(1, Number((body as Partial<CatchSiblonRequest>).throw_quality) || 0));
+    const name = battle.opponentSiblon.species_name;
+
+    if (Math.random() >= 0.3 + quality * 0.6) {
+      return { caught: false, message: `Oh no! ${name} broke free!`, siblon: null };
+    }
+
+    const partySize = user.siblons.filter(s => s.is_in_party).length;
+    const siblon = createFixtureSiblon(this.nextSiblonId++, battle.opponentSiblon.species_id, battle.opponentSiblon.level, {
+      isInParty: partySize < GAME_CONFIG.MAX_PARTY_SIZE,
+    });
+    user.siblons.push(siblon);
+
+    return { caught: true, message: `Gotcha! ${name} was caught!`, siblon };
+  };
+
+  // ===========================================
+  // Broadcasting
+  // ===========================================
+
+  private authorizeChannel = ({ body, user }: RouteContext): BroadcastingAuthResponse => {
+    const request = body as Partial<BroadcastingAuthRequest>;
+    if (!request.socket_id || !request.channel_name) {
+      this.throwIfInvalid({ channel_name: ['The socket id and channel name fields are required.'] });
+    }
+
+    const channelName = request.channel_name!;
+    const battleId = /^private-battle\.([\w-]+)$/.exec(channelName)?.[1];
+    if (battleId) {
+      this.findBattle(battleId, user);
+    }
+
+    const auth = signLocalChannel(LOCAL_REVERB_KEY, request.socket_id!, channelName);
+    if (!channelName.startsWith('presence-')) {
+      return { auth };
+    }
+
+    return {
+      auth,
+      channel_data: JSON.stringify({
+        user_id: user.account.user.id,
+        user_info: { name: user.profile.trainer_name, level: user.profile.level },
+      }),
+    };
+  };
+
+  // ===========================================
+  // Helpers
+  // ===========================================
+
+  private addUser(account: FixtureAccount): LocalUser {
+    const user: LocalUser = {
+      account,
+      profile: {
+        id: account.user.id,
+        user_id: account.user.id,
+        username: account.user.username,
+        name: account.user.name,
+        trainer_name: account.trainer_name,
+        level: 1,
+        experience_points: 0,
+        coins: 100,
+        current_region_id: null,
+      },
+      siblons: STARTER_SIBLONS.map(starter =>
+        createFixtureSiblon(this.nextSiblonId++, starter.species_id, starter.level, { nickname: starter.nickname })
+      ),
+      activity: {
+        activity_date: new Date().toISOString().slice(0, 10),
+        quizzes_completed: 0,
+        experience_gained: 0,
+        battles_won: 0,
+        battles_lost: 0,
+        login_streak: 1,
+      },
+    };
+
+    this.users.set(account.user.id, user);
+    return user;
+  }
+
+  private findUserByEmail(email: unknown): LocalUser | undefined {
+    return [...this.users.values()].find(u => u.account.user.email === email);
+  }
+
+  // One token per user (a new login replaces it, like Sanctum revoking old tokens)
+  private tokenFor(userId: number): string {
+    return `local|${userId}`;
+  }
+
+  private issueToken(user: LocalUser): string {
+    const token = this.tokenFor(user.account.user.id);
+    this.revokedTokens.delete(token);
+    return token;
+  }
+
+  private authenticate(headers: HeadersInit | undefined): LocalUser | null {
+    const authorization = new Headers(headers).get('Authorization') ?? '';
+    const token = authorization.replace(/^Bearer\s+/i, '');
+    const userId = Number(/^local\|(\d+)$/.exec(token)?.[1]);
+    if (!userId || this.revokedTokens.has(token)) return null;
+
+    return this.users.get(userId) ?? null;
+  }
+
+  private findQuiz(quizId: number): FixtureQuiz {
+    const quiz = QUIZZES.find(q => q.detail.id === quizId);
+    if (!quiz) {
+      throw new LocalApiError('Quiz not found.', 404);
+    }
+    if (!quiz.is_published) {
+      throw new LocalApiError('This quiz is not published.', 403);
+    }
+    return quiz;
+  }
+
+  private findBattle(battleId: string, user: LocalUser): LocalBattle {
+    const battle = this.battles.get(battleId);
+    if (!battle) {
+      throw new LocalApiError('Battle not found.', 404);
+    }
+    if (battle.userId !== user.account.user.id) {
+      throw new LocalApiError('You are not part of this battle.', 403);
+    }
+    return battle;
+  }
+
+  private findActiveBattle(battleId: string, user: LocalUser): LocalBattle {
+    const battle = this.findBattle(battleId, user);
+    if (battle.engine.getState().status !== 'active') {
+      throw new LocalApiError('This battle is not active.', 400);
+    }
+    return battle;
+  }
+
+  private getBattleState(battle: LocalBattle): BattleState {
+    return { ...battle.engine.getState(), battle_id: battle.id, rewards: battle.rewards };
+  }
+
+  /**
+   * Record the outcome once: rewards for a win, activity counters
+   */
+  private finishBattleIfOver(battle: LocalBattle, user: LocalUser): void {
+    const state = battle.engine.getState();
+    if (state.status === 'active' || battle.isFinished) return;
+
+    battle.isFinished = true;
+
+    if (state.winner_id === user.account.user.id) {
+      battle.rewards = calculateBattleRewards(battle.playerSiblon.level, battle.opponentSiblon.level, battle.battleType);
+      this.grantRewards(user, battle.rewards.experience_points, battle.rewards.coins);
+      user.activity.battles_won++;
+    } else {
+      user.activity.battles_lost++;
+    }
+  }
+
+  private grantRewards(user: LocalUser, experience: number, coins: number): void {
+    user.profile.experience_points += experience;
+    user.profile.coins += coins;
+    user.profile.level = Math.floor(user.profile.experience_points / XP_PER_LEVEL) + 1;
+    user.activity.experience_gained += experience;
+  }
+
+  private throwIfInvalid(errors: ValidationErrors): void {
+    const messages = Object.values(errors);
+    if (messages.length > 0) {
+      throw new LocalApiError(messages[0][0], 422, errors);
+    }
+  }
+
+  private respond(status: number, data: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+
+  /**
+   * Simulated network delay (0.5x-1.5x the configured latency), cut short by the request's abort signal
+   */
+  private delay(signal?: AbortSignal | null): Promise<void> {
+    const duration = this.latency * (0.5 + Math.random());
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, duration);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      }, { once: true });
+    });
+  }
+}
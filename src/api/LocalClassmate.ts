@@ -0,0 +1,61 @@
+/**
+ * Local Classmate
+ *
+ * The fixture classmate (localApiFixtures.ts) sitting in the PvP lobby of the
+ * local Reverb server, so challenges can be tried without a second player:
+ * - Joins the lobby presence channel on its own connection
+ * - Accepts every challenge addressed to it after a short pause
+ *
+ * The challenger then starts the battle on LocalApiServer, where the
+ * classmate's lead Siblon fights back like the PvE AI.
+ */
+
+import { API_ENDPOINTS } from '../config/apiEndpoints';
+import { LOBBY_EVENTS } from '../config/constants';
+import type { FixtureAccount } from './localApiFixtures';
+import type { LocalReverbServer } from './LocalReverbServer';
+import type { WebSocketManager } from './WebSocketManager';
+import type { LobbyChallenge, LobbyChallengeResponse } from './types';
+
+const ANSWER_DELAY = 1500; // ms before answering a challenge
+
+export class LocalClassmate {
+  private account: FixtureAccount;
+  private manager: WebSocketManager;
+
+  constructor(server: LocalReverbServer, account: FixtureAccount) {
+    this.account = account;
+    this.manager = server.createManager({
+      user_id: account.user.id,
+      user_info: { name: account.trainer_name, level: 1 },
+    });
+  }
+
+  /**
+   * Go online in the lobby
+   */
+  async joinLobby(): Promise<void> {
+    const lobbyChannel = `presence-${API_ENDPOINTS.websocket.lobby}`;
+
+    this.manager.on('clientEvent', ({ channel, event, data }) => {
+      if (channel !== lobbyChannel || event !== LOBBY_EVENTS.CHALLENGE) return;
+
+      const challenge = data as LobbyChallenge;
+      if (challenge.to_user_id !== this.account.user.id) return;
+
+      setTimeout(() => {
+        const response: LobbyChallengeResponse = {
+          challenge_id: challenge.challenge_id,
+          from_user_id: this.account.user.id,
+          to_user_id: challenge.from_user_id,
+          accepted: true,
+          siblon_id: null, // The server picks our lead
+        };
+        this.manager.whisper(lobbyChannel, LOBBY_EVENTS.RESPONSE, response);
+      }, ANSWER_DELAY);
+    });
+
+    await this.manager.joinPresenceChannel(API_ENDPOINTS.websocket.lobby);
+    console.log(`[LocalClassmate] ${this.account.trainer_name} joined the lobby`);
+  }
+}
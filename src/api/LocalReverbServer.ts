@@ -0,0 +1,361 @@
+/**
+ * Local Reverb Server
+ *
+ * In-process stand-in for Laravel Reverb so the WebSocketManager can be
+ * exercised without a backend; wsManager connects to one when
+ * VITE_USE_MOCK_API=true. Speaks the same Pusher protocol messages:
+ * - Connection handshake and ping/pong
+ * - Private channel subscriptions with (non-cryptographic) auth checks
+ * - Presence channel member lists and member added/removed events
+ * - Client event relay (whispers) between sockets
+ * - Server broadcasts and forced disconnects for reconnect testing
+ */
+
+import { WebSocketManager, type WebSocketLike } from './WebSocketManager';
+import { LOCAL_REVERB_KEY, signLocalChannel } from './localApiFixtures';
+import { API_ENDPOINTS } from '../config/apiEndpoints';
+import type { BroadcastingAuthResponse } from './types';
+
+interface ProtocolMessage {
+  event: string;
+  channel?: string;
+  data?: unknown;
+}
+
+// Member info carried in presence channel_data
+export interface LocalPresenceMember {
+  user_id: number;
+  user_info: unknown;
+}
+
+class LocalReverbSocket implements WebSocketLike {
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  public socketId: string;
+  public isOpen: boolean = true;
+  private server: LocalReverbServer;
+
+  constructor(server: LocalReverbServer, socketId: string) {
+    this.server = server;
+    this.socketId = socketId;
+  }
+
+  send(data: string): void {
+    if (!this.isOpen) return;
+    this.server.receive(this, data);
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    if (!this.isOpen) return;
+    this.isOpen = false;
+    this.server.removeSocket(this);
+    this.server.deliver(() => this.onclose?.(new CloseEvent('close', { code, reason })));
+  }
+
+  /**
+   * Push a protocol message to the client side of this socket
+   */
+  push(message: ProtocolMessage): void {
+    if (!this.isOpen) return;
+    const payload = JSON.stringify(message);
+    this.server.deliver(() => {
+      if (this.isOpen) {
+        this.onmessage?.(new MessageEvent('message', { data: payload }));
+      }
+    });
+  }
+}
+
+export class LocalReverbServer {
+  private appKey: string;
+  private latency: number;
+  private nextSocketId: number = 1;
+  private sockets: Set<LocalReverbSocket> = new Set();
+  private subscriptions: Map<string, Set<LocalReverbSocket>> = new Map();
+  private presenceMembers: Map<string, Map<LocalReverbSocket, LocalPresenceMember>> = new Map();
+
+  /**
+   * @param appKey - Key clients must connect with
+   * @param latency - Simulated one-way delay in ms (default: 0)
+   */
+  constructor(appKey: string = LOCAL_REVERB_KEY, latency: number = 0) {
+    this.appKey = appKey;
+    this.latency = latency;
+  }
+
+  /**
+   * Connection URL for WebSocketManagerOptions.url
+   */
+  get url(): string {
+    return `ws://local-reverb/app/${this.appKey}?protocol=7`;
+  }
+
+  /**
+   * Create a WebSocketManager wired to this server
+   * @param member - Identity used on presence channels (omit for private channels only)
+   */
+  createManager(member?: LocalPresenceMember): WebSocketManager {
+    return new WebSocketManager({
+      url: this.url,
+      createSocket: this.createSocket,
+      authorize: member
+        ? async (socketId, channelName) => ({
+          auth: this.sign(socketId, channelName),
+          channel_data: JSON.stringify(member),
+        })
+        : this.authorize,
+    });
+  }
+
+  /**
+   * Socket factory for WebSocketManagerOptions.createSocket
+   */
+  createSocket = (url: string): WebSocketLike => {
+    const socket = new LocalReverbSocket(this, `${this.nextSocketId++}.${Date.now() % 100000}`);
+    this.sockets.add(socket);
+
+    const key = url.match(/\/app\/([^?]+)/)?.[1];
+    this.deliver(() => {
+      socket.onopen?.(new Event('open'));
+
+      if (key !== this.appKey) {
+        socket.push({ event: 'pusher:error', data: JSON.stringify({ message: 'Application does not exist', code: 4001 }) });
+        socket.close(4001, 'Application does not exist');
+        return;
+      }
+
+      socket.push({
+        event: 'pusher:connection_established',
+        data: JSON.stringify({ socket_id: socket.socketId, activity_timeout: 30 }),
+      });
+    });
+
+    return socket;
+  };
+
+  /**
+   * Channel authorizer for WebSocketManagerOptions.authorize
+   */
+  authorize = async (socketId: string, channelName: string): Promise<BroadcastingAuthResponse> => {
+    return { auth: this.sign(socketId, channelName) };
+  };
+
+  /**
+   * Broadcast a server event to every subscriber of a channel
+   * @param channel - Full channel name (e.g. "private-battle.{id}")
+   * @param event - Event name (e.g. "BattleEnded")
+   * @param data - Event payload (JSON-encoded like Reverb does)
+   */
+  broadcast(channel: string, event: string, data: unknown): void {
+    this.subscriptions.get(channel)?.forEach((socket) => {
+      socket.push({ event, channel, data: JSON.stringify(data) });
+    });
+  }
+
+  /**
+   * Broadcast a server event on a battle's private channel
+   */
+  broadcastToBattle(battleId: string, event: string, data: unknown): void {
+    this.broadcast(`private-${API_ENDPOINTS.websocket.battle(battleId)}`, event, data);
+  }
+
+  /**
+   * Drop every connection (simulates a server restart / network loss)
+   * @param code - Close code sent to clients (default: 1006 abnormal closure)
+   */
+  dropAllConnections(code: number = 1006): void {
+    for (const socket of [...this.sockets]) {
+      socket.close(code, 'Connection dropped');
+    }
+  }
+
+  /**
+   * Number of open sockets
+   */
+  getConnectionCount(): number {
+    return this.sockets.size;
+  }
+
+  /**
+   * Number of sockets subscribed to a channel
+   */
+  getSubscriberCount(channel: string): number {
+    return this.subscriptions.get(channel)?.size ?? 0;
+  }
+
+  /**
+   * Handle a raw message sent by a client socket
+   */
+  receive(socket: LocalReverbSocket, raw: string): void {
+    let message: ProtocolMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      socket.push({ event: 'pusher:error', data: JSON.stringify({ message: 'Invalid message format', code: 4200 }) });
+      return;
+    }
+
+    this.deliver(() => this.handleMessage(socket, message));
+  }
+
+  /**
+   * Forget a closed socket
+   */
+  removeSocket(socket: LocalReverbSocket): void {
+    this.sockets.delete(socket);
+    this.subscriptions.forEach((subscribers, channel) => {
+      subscribers.delete(socket);
+      this.removePresenceMember(channel, socket);
+    });
+  }
+
+  /**
+   * Run a callback after the simulated network delay
+   */
+  deliver(callback: () => void): void {
+    setTimeout(callback, this.latency);
+  }
+
+  private handleMessage(socket: LocalReverbSocket, message: ProtocolMessage): void {
+    if (!socket.isOpen) return;
+
+    switch (message.event) {
+      case 'pusher:ping':
+        socket.push({ event: 'pusher:pong', data: '{}' });
+        return;
+      case 'pusher:pong':
+        return;
+      case 'pusher:subscribe':
+        this.handleSubscribe(socket, message.data as { channel: string; auth?: string; channel_data?: string });
+        return;
+      case 'pusher:unsubscribe': {
+        const { channel } = message.data as { channel: string };
+        this.subscriptions.get(channel)?.delete(socket);
+        this.removePresenceMember(channel, socket);
+        return;
+      }
+    }
+
+    if (message.event.startsWith('client-') && message.channel) {
+      this.relayClientEvent(socket, message);
+    }
+  }
+
+  private handleSubscribe(
+    socket: LocalReverbSocket,
+    data: { channel: string; auth?: string; channel_data?: string }
+  ): void {
+    const { channel } = data;
+    const needsAuth = channel.startsWith('private-') || channel.startsWith('presence-');
+
+    if (needsAuth && data.auth !== this.sign(socket.socketId, channel)) {
+      socket.push({
+        event: 'pusher:error',
+        data: JSON.stringify({ message: `Invalid signature for ${channel}`, code: 4009 }),
+      });
+      return;
+    }
+
+    let subscribers = this.subscriptions.get(channel);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscriptions.set(channel, subscribers);
+    }
+    subscribers.add(socket);
+
+    if (channel.startsWith('presence-')) {
+      this.addPresenceMember(socket, channel, data.channel_data);
+      return;
+    }
+
+    socket.push({ event: 'pusher_internal:subscription_succeeded', channel, data: '{}' });
+  }
+
+  private addPresenceMember(socket: LocalReverbSocket, channel: string, channelData?: string): void {
+    let member: LocalPresenceMember;
+    try {
+      member = JSON.parse(channelData ?? '');
+    } catch {
+      socket.push({
+        event: 'pusher:error',
+        data: JSON.stringify({ message: `Missing channel_data for ${channel}`, code: 4009 }),
+      });
+      return;
+    }
+
+    let members = this.presenceMembers.get(channel);
+    if (!members) {
+      members = new Map();
+      this.presenceMembers.set(channel, members);
+    }
+    const isNewUser = ![...members.values()].some((existing) => existing.user_id === member.user_id);
+    members.set(socket, member);
+
+    // One entry per user, even with several open sockets
+    const hash: Record<string, unknown> = {};
+    members.forEach(({ user_id, user_info }) => {
+      hash[String(user_id)] = user_info;
+    });
+    const ids = Object.keys(hash);
+
+    socket.push({
+      event: 'pusher_internal:subscription_succeeded',
+      channel,
+      data: JSON.stringify({ presence: { ids, hash, count: ids.length } }),
+    });
+
+    if (isNewUser) {
+      this.subscriptions.get(channel)?.forEach((other) => {
+        if (other !== socket) {
+          other.push({ event: 'pusher_internal:member_added', channel, data: JSON.stringify(member) });
+        }
+      });
+    }
+  }
+
+  private removePresenceMember(channel: string, socket: LocalReverbSocket): void {
+    const members = this.presenceMembers.get(channel);
+    const member = members?.get(socket);
+    if (!members || !member) return;
+
+    members.delete(socket);
+    const stillOnline = [...members.values()].some((existing) => existing.user_id === member.user_id);
+    if (stillOnline) return;
+
+    this.subscriptions.get(channel)?.forEach((other) => {
+      other.push({
+        event: 'pusher_internal:member_removed',
+        channel,
+        data: JSON.stringify({ user_id: member.user_id }),
+      });
+    });
+  }
+
+  private relayClientEvent(sender: LocalReverbSocket, message: ProtocolMessage): void {
+    const channel = message.channel!;
+    const subscribers = this.subscriptions.get(channel);
+
+    // Client events are only allowed on authenticated channels the sender joined
+    const isAuthenticated = channel.startsWith('private-') || channel.startsWith('presence-');
+    if (!isAuthenticated || !subscribers?.has(sender)) {
+      sender.push({
+        event: 'pusher:error',
+        data: JSON.stringify({ message: 'Client event rejected', code: 4301 }),
+      });
+      return;
+    }
+
+    subscribers.forEach((socket) => {
+      if (socket !== sender) {
+        socket.push({ event: message.event, channel, data: message.data });
+      }
+    });
+  }
+
+  private sign(socketId: string, channelName: string): string {
+    return signLocalChannel(this.appKey, socketId, channelName);
+  }
+}
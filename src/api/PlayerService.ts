@@ -9,6 +9,8 @@
 
 import { apiClient } from './ApiClient';
 import { API_ENDPOINTS } from '../config/apiEndpoints';
+import { validateResponse } from './validation';
+import * as schemas from './responseSchemas';
 import type { PlayerProfile, SiblonsResponse, DailyActivity } from './types';
 
 export class PlayerService {
@@ -17,7 +19,8 @@ export class PlayerService {
    * @returns Promise with player profile data
    */
   async getProfile(): Promise<PlayerProfile> {
-    return apiClient.get<PlayerProfile>(API_ENDPOINTS.player.profile);
+    const response = await apiClient.get<unknown>(API_ENDPOINTS.player.profile);
+    return validateResponse(schemas.playerProfile, response, 'PlayerProfile');
   }
 
   /**
@@ -25,7 +28,8 @@ export class PlayerService {
    * @returns Promise with party and collection Siblons
    */
   async getSiblons(): Promise<SiblonsResponse> {
-    return apiClient.get<SiblonsResponse>(API_ENDPOINTS.player.siblons);
+    const response = await apiClient.get<unknown>(API_ENDPOINTS.player.siblons);
+    return validateResponse(schemas.siblonsResponse, response, 'SiblonsResponse');
   }
 
   /**
@@ -33,7 +37,8 @@ export class PlayerService {
    * @returns Promise with daily activity data
    */
   async getDailyActivity(): Promise<DailyActivity> {
-    return apiClient.get<DailyActivity>(API_ENDPOINTS.player.dailyActivity);
+    const response = await apiClient.get<unknown>(API_ENDPOINTS.player.dailyActivity);
+    return validateResponse(schemas.dailyActivity, response, 'DailyActivity');
   }
 }
 
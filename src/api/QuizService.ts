@@ -9,6 +9,9 @@
 
 import { apiClient } from './ApiClient';
 import { API_ENDPOINTS } from '../config/apiEndpoints';
+import { ApiError } from './types';
+import { validateResponse } from './validation';
+import * as schemas from './responseSchemas';
 import type {
   GetQuizzesResponse,
   QuizDetail,
@@ -17,13 +20,24 @@ import type {
   SubmitQuizResponse,
 } from './types';
 
+/**
+ * True if the server refused to start an attempt because the quiz's
+ * max_attempts has been reached (403 with a message about attempts)
+ */
+export function isAttemptLimitError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+    && error.statusCode === 403
+    && /maximum number of attempts/i.test(error.message);
+}
+
 export class QuizService {
   /**
    * Get list of available quizzes
    * @returns Promise with array of quizzes
    */
   async getQuizzes(): Promise<GetQuizzesResponse> {
-    return apiClient.get<GetQuizzesResponse>(API_ENDPOINTS.quizzes.list);
+    const response = await apiClient.get<unknown>(API_ENDPOINTS.quizzes.list);
+    return validateResponse(schemas.getQuizzesResponse, response, 'GetQuizzesResponse');
   }
 
   /**
@@ -32,7 +46,8 @@ export class QuizService {
    * @returns Promise with full quiz details
    */
   async getQuizDetail(quizId: number): Promise<QuizDetail> {
-    return apiClient.get<QuizDetail>(API_ENDPOINTS.quizzes.detail(quizId));
+    const response = await apiClient.get<unknown>(API_ENDPOINTS.quizzes.detail(quizId));
+    return validateResponse(schemas.quizDetail, response, 'QuizDetail');
   }
 
   /**
@@ -41,11 +56,13 @@ export class QuizService {
    * @returns Promise with attempt ID and timing info
    */
   async startQuiz(quizId: number): Promise<StartQuizResponse> {
-    return apiClient.post<StartQuizResponse>(API_ENDPOINTS.quizzes.start(quizId), {});
+    const response = await apiClient.post<unknown>(API_ENDPOINTS.quizzes.start(quizId), {});
+    return validateResponse(schemas.startQuizResponse, response, 'StartQuizResponse');
   }
 
   /**
    * Submit completed quiz answers
+   * Not retried: the backend doesn't de-duplicate submits, and a second one could be refused.
    * @param attemptId - ID of the quiz attempt
    * @param answers - Array of answers with question IDs and selected choice IDs
    * @returns Promise with score, results, and rewards
@@ -54,10 +71,8 @@ export class QuizService {
     attemptId: number,
     answers: SubmitQuizRequest['answers']
   ): Promise<SubmitQuizResponse> {
-    return apiClient.post<SubmitQuizResponse>(
-      API_ENDPOINTS.quizzes.submit(attemptId),
-      { answers }
-    );
+    const response = await apiClient.post<unknown>(API_ENDPOINTS.quizzes.submit(attemptId), { answers });
+    return validateResponse(schemas.submitQuizResponse, response, 'SubmitQuizResponse');
   }
 }
 
@@ -0,0 +1,627 @@
+/**
+ * WebSocket Manager
+ *
+ * Real-time connection to Laravel Reverb using the Pusher protocol:
+ * - Connection handshake and keep-alive pings
+ * - Private channel authorization with the Sanctum token
+ * - Presence channel member lists and client events (whispers)
+ * - Automatic reconnect with exponential backoff
+ * - Typed battle events (turn changed, damage dealt, battle ended)
+ */
+
+import { apiClient } from './ApiClient';
+import { LocalReverbServer } from './LocalReverbServer';
+import { LocalClassmate } from './LocalClassmate';
+import { CLASSMATE_ACCOUNT } from './localApiFixtures';
+import { ENV } from '../config/env';
+import { API_ENDPOINTS } from '../config/apiEndpoints';
+import { WEBSOCKET_CONFIG } from '../config/constants';
+import type {
+  BroadcastingAuthRequest,
+  BroadcastingAuthResponse,
+  BattleMoveExecutedEvent,
+  BattleTurnChangedEvent,
+  BattleEndedEvent,
+  MoveIntent,
+  PresenceMember,
+} from './types';
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+/**
+ * Minimal socket surface used by the manager.
+ * Satisfied by the browser WebSocket and by LocalReverbServer sockets.
+ */
+export interface WebSocketLike {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface WebSocketManagerOptions {
+  url?: string;
+  createSocket?: (url: string) => WebSocketLike;
+  authorize?: (socketId: string, channelName: string) => Promise<BroadcastingAuthResponse>;
+}
+
+/**
+ * Events emitted by the manager, keyed by event name
+ */
+export interface WebSocketEvents {
+  connectionStateChanged: ConnectionState;
+  turnChanged: BattleTurnChangedEvent;
+  damageDealt: BattleMoveExecutedEvent;
+  battleEnded: BattleEndedEvent;
+  moveIntent: MoveIntent;
+  membersChanged: { channel: string; members: PresenceMember[] };
+  clientEvent: { channel: string; event: string; data: unknown };
+}
+
+type Listener<K extends keyof WebSocketEvents> = (payload: WebSocketEvents[K]) => void;
+
+interface PusherMessage {
+  event: string;
+  channel?: string;
+  data?: unknown;
+}
+
+// Payload of subscription_succeeded on presence channels
+interface PresenceData {
+  presence?: {
+    ids: Array<number | string>;
+    hash: Record<string, unknown>;
+    count: number;
+  };
+}
+
+interface PendingSubscription {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Server broadcast names -> emitted event names
+const BATTLE_EVENTS: Record<string, keyof WebSocketEvents> = {
+  BattleTurnChanged: 'turnChanged',
+  BattleMoveExecuted: 'damageDealt',
+  BattleEnded: 'battleEnded',
+};
+
+const MOVE_INTENT_EVENT = 'client-move-intent';
+
+export class WebSocketManager {
+  private url: string;
+  private createSocket: (url: string) => WebSocketLike;
+  private authorize: (socketId: string, channelName: string) => Promise<BroadcastingAuthResponse>;
+
+  private socket: WebSocketLike | null = null;
+  private socketId: string | null = null;
+  private state: ConnectionState = 'disconnected';
+  private activityTimeout: number = WEBSOCKET_CONFIG.ACTIVITY_TIMEOUT;
+
+  // channel name -> subscribed on the current socket
+  private channels: Map<string, boolean> = new Map();
+  private pending: Map<string, PendingSubscription[]> = new Map();
+  private listeners: Map<keyof WebSocketEvents, Set<Listener<keyof WebSocketEvents>>> = new Map();
+  // presence channel name -> members by user ID
+  private presence: Map<string, Map<number, PresenceMember>> = new Map();
+
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private activityTimer: ReturnType<typeof setTimeout> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect: boolean = false;
+
+  constructor(options: WebSocketManagerOptions = {}) {
+    this.url = options.url ?? WebSocketManager.buildReverbUrl();
+    this.createSocket = options.createSocket ?? ((url) => new WebSocket(url));
+    this.authorize = options.authorize ?? WebSocketManager.authorizeWithApi;
+  }
+
+  /**
+   * Build the Reverb connection URL from environment configuration
+   */
+  static buildReverbUrl(): string {
+    const scheme = ENV.REVERB_SCHEME === 'https' ? 'wss' : 'ws';
+    const query = `protocol=${WEBSOCKET_CONFIG.PROTOCOL_VERSION}&client=js&version=8.4.0&flash=false`;
+    return `${scheme}://${ENV.REVERB_HOST}:${ENV.REVERB_PORT}/app/${ENV.REVERB_KEY}?${query}`;
+  }
+
+  /**
+   * Authorize a channel through /broadcasting/auth (ApiClient attaches the token)
+   */
+  private static authorizeWithApi(socketId: string, channelName: string): Promise<BroadcastingAuthResponse> {
+    const data: BroadcastingAuthRequest = { socket_id: socketId, channel_name: channelName };
+    return apiClient.post<BroadcastingAuthResponse>(API_ENDPOINTS.websocket.auth, data);
+  }
+
+  /**
+   * Open the connection (no-op if already open or opening)
+   */
+  connect(): void {
+    if (this.socket) return;
+
+    this.shouldReconnect = true;
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    if (ENV.DEBUG) {
+      console.log(`[WS] Connecting to ${this.url}`);
+    }
+
+    const socket = this.createSocket(this.url);
+    socket.onmessage = (event) => this.handleMessage(event);
+    socket.onclose = (event) => this.handleClose(socket, event.code);
+    socket.onerror = (event) => {
+      console.error('[WS] Socket error:', event);
+    };
+    this.socket = socket;
+  }
+
+  /**
+   * Close the connection and forget all channels
+   */
+  disconnect(): void {
+    this.shouldReconnect = false;
+    this.clearTimers();
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close(1000, 'Client disconnect');
+    }
+
+    this.socketId = null;
+    this.reconnectAttempts = 0;
+    this.channels.clear();
+    this.presence.clear();
+    this.rejectAllPending(new Error('WebSocket disconnected'));
+    this.setState('disconnected');
+  }
+
+  /**
+   * Current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Socket ID assigned by the server (null until connected)
+   */
+  getSocketId(): string | null {
+    return this.socketId;
+  }
+
+  /**
+   * Subscribe to a battle's private channel
+   * @param battleId - UUID of the battle
+   * @returns Promise that resolves once the server confirms the subscription
+   */
+  subscribeToBattle(battleId: string): Promise<void> {
+    return this.subscribe(`private-${API_ENDPOINTS.websocket.battle(battleId)}`);
+  }
+
+  /**
+   * Leave a battle's private channel
+   */
+  unsubscribeFromBattle(battleId: string): void {
+    this.unsubscribe(`private-${API_ENDPOINTS.websocket.battle(battleId)}`);
+  }
+
+  /**
+   * Send a move intention to the opponent (client event / whisper)
+   */
+  whisperMove(battleId: string, intent: MoveIntent): void {
+    this.whisper(`private-${API_ENDPOINTS.websocket.battle(battleId)}`, MOVE_INTENT_EVENT, intent);
+  }
+
+  /**
+   * Join a presence channel
+   * @param name - Channel name without the "presence-" prefix
+   * @returns Promise with the members online when the subscription succeeds
+   */
+  async joinPresenceChannel(name: string): Promise<PresenceMember[]> {
+    const channel = `presence-${name}`;
+    await this.subscribe(channel);
+    return this.getMembers(name);
+  }
+
+  /**
+   * Leave a presence channel
+   */
+  leavePresenceChannel(name: string): void {
+    const channel = `presence-${name}`;
+    this.unsubscribe(channel);
+    this.presence.delete(channel);
+  }
+
+  /**
+   * Members currently on a presence channel (including ourselves)
+   */
+  getMembers(name: string): PresenceMember[] {
+    return [...(this.presence.get(`presence-${name}`)?.values() ?? [])];
+  }
+
+  /**
+   * Send a client event to everyone else on a private or presence channel
+   * @param channel - Full channel name (e.g. "presence-lobby")
+   * @param event - Event name, must start with "client-"
+   */
+  whisper(channel: string, event: string, data: unknown): void {
+    if (!event.startsWith('client-')) {
+      throw new Error(`[WS] Client events must start with "client-": ${event}`);
+    }
+    if (!this.channels.get(channel)) {
+      throw new Error(`[WS] Not subscribed to ${channel}`);
+    }
+    this.send({ event, channel, data });
+  }
+
+  /**
+   * Listen for an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof WebSocketEvents>(event: K, listener: Listener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as Listener<keyof WebSocketEvents>);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove an event listener
+   */
+  off<K extends keyof WebSocketEvents>(event: K, listener: Listener<K>): void {
+    this.listeners.get(event)?.delete(listener as Listener<keyof WebSocketEvents>);
+  }
+
+  private emit<K extends keyof WebSocketEvents>(event: K, payload: WebSocketEvents[K]): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[WS] Listener for "${event}" failed:`, error);
+      }
+    });
+  }
+
+  private subscribe(channelName: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiting = this.pending.get(channelName) ?? [];
+      waiting.push({ resolve, reject });
+      this.pending.set(channelName, waiting);
+
+      if (!this.channels.has(channelName)) {
+        this.channels.set(channelName, false);
+      }
+
+      if (this.state === 'connected') {
+        if (this.channels.get(channelName)) {
+          this.resolvePending(channelName);
+        } else {
+          this.sendSubscribe(channelName);
+        }
+      } else {
+        this.connect();
+      }
+    });
+  }
+
+  private unsubscribe(channelName: string): void {
+    if (!this.channels.has(channelName)) return;
+
+    this.channels.delete(channelName);
+    this.rejectPending(channelName, new Error(`Unsubscribed from ${channelName}`));
+
+    if (this.state === 'connected') {
+      this.send({ event: 'pusher:unsubscribe', data: { channel: channelName } });
+    }
+  }
+
+  private async sendSubscribe(channelName: string): Promise<void> {
+    const socketId = this.socketId;
+    if (!socketId) return;
+
+    const data: { channel: string; auth?: string; channel_data?: string } = { channel: channelName };
+
+    if (channelName.startsWith('private-') || channelName.startsWith('presence-')) {
+      try {
+        const auth = await this.authorize(socketId, channelName);
+        data.auth = auth.auth;
+        data.channel_data = auth.channel_data;
+      } catch (error) {
+        console.error(`[WS] Authorization failed for ${channelName}:`, error);
+        this.channels.delete(channelName);
+        this.rejectPending(
+          channelName,
+          error instanceof Error ? error : new Error('Channel authorization failed')
+        );
+        return;
+      }
+
+      // Reconnected (or unsubscribed) while waiting for auth
+      if (socketId !== this.socketId || !this.channels.has(channelName)) return;
+    }
+
+    this.send({ event: 'pusher:subscribe', data });
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    let message: PusherMessage;
+    try {
+      message = JSON.parse(String(event.data));
+    } catch {
+      console.warn('[WS] Ignoring malformed message:', event.data);
+      return;
+    }
+
+    this.resetActivityTimer();
+
+    // Pusher sends nested JSON as a string
+    const data = typeof message.data === 'string' ? this.parseData(message.data) : message.data;
+
+    switch (message.event) {
+      case 'pusher:connection_established':
+        this.handleConnected(data as { socket_id: string; activity_timeout?: number });
+        return;
+      case 'pusher:ping':
+        this.send({ event: 'pusher:pong', data: {} });
+        return;
+      case 'pusher:pong':
+        this.clearPongTimer();
+        return;
+      case 'pusher:error': {
+        // Connection-level (e.g. 4009 unauthorized) - nothing waiting will be answered
+        console.error('[WS] Server error:', data);
+        const { message: errorMessage, code } = (data ?? {}) as { message?: string; code?: number };
+        this.failPendingSubscriptions(
+          new Error(`WebSocket error${code ? ` ${code}` : ''}: ${errorMessage ?? 'unknown error'}`)
+        );
+        return;
+      }
+      case 'pusher:subscription_error':
+        if (message.channel && this.channels.has(message.channel)) {
+          console.error(`[WS] Subscription to ${message.channel} failed:`, data);
+          const { error, status } = (data ?? {}) as { error?: string; status?: number };
+          this.channels.delete(message.channel);
+          this.rejectPending(
+            message.channel,
+            new Error(`Subscription to ${message.channel} failed${status ? ` (${status})` : ''}: ${error ?? 'unknown error'}`)
+          );
+        }
+        return;
+      case 'pusher_internal:subscription_succeeded':
+        if (message.channel && this.channels.has(message.channel)) {
+          if (message.channel.startsWith('presence-')) {
+            this.setPresence(message.channel, data as PresenceData);
+          }
+          this.channels.set(message.channel, true);
+          this.resolvePending(message.channel);
+        }
+        return;
+      case 'pusher_internal:member_added':
+      case 'pusher_internal:member_removed':
+        if (message.channel && this.channels.get(message.channel)) {
+          this.updatePresence(message.channel, message.event, data as { user_id: number | string; user_info?: unknown });
+        }
+        return;
+    }
+
+    if (!message.channel || !this.channels.get(message.channel)) return;
+
+    if (message.event === MOVE_INTENT_EVENT) {
+      this.emit('moveIntent', data as MoveIntent);
+      return;
+    }
+
+    if (message.event.startsWith('client-')) {
+      this.emit('clientEvent', { channel: message.channel, event: message.event, data });
+      return;
+    }
+
+    // Laravel may send fully qualified names (App\Events\BattleEnded)
+    const shortName = message.event.split(/[\\.]/).pop() ?? message.event;
+    const mapped = BATTLE_EVENTS[shortName];
+    if (mapped) {
+      this.emit(mapped, data as WebSocketEvents[typeof mapped]);
+    } else if (ENV.DEBUG) {
+      console.log(`[WS] Unhandled event ${message.event} on ${message.channel}`);
+    }
+  }
+
+  private setPresence(channel: string, data: PresenceData | undefined): void {
+    const members = new Map<number, PresenceMember>();
+    Object.entries(data?.presence?.hash ?? {}).forEach(([id, info]) => {
+      members.set(Number(id), { id: Number(id), info: info as PresenceMember['info'] });
+    });
+    this.presence.set(channel, members);
+    this.emit('membersChanged', { channel, members: [...members.values()] });
+  }
+
+  private updatePresence(
+    channel: string,
+    event: string,
+    data: { user_id: number | string; user_info?: unknown }
+  ): void {
+    const members = this.presence.get(channel) ?? new Map<number, PresenceMember>();
+    const id = Number(data.user_id);
+
+    if (event === 'pusher_internal:member_added') {
+      members.set(id, { id, info: data.user_info as PresenceMember['info'] });
+    } else {
+      members.delete(id);
+    }
+
+    this.presence.set(channel, members);
+    this.emit('membersChanged', { channel, members: [...members.values()] });
+  }
+
+  private parseData(raw: string): unknown {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+
+  private handleConnected(data: { socket_id: string; activity_timeout?: number }): void {
+    this.socketId = data.socket_id;
+    this.reconnectAttempts = 0;
+
+    if (data.activity_timeout) {
+      this.activityTimeout = Math.min(data.activity_timeout * 1000, WEBSOCKET_CONFIG.ACTIVITY_TIMEOUT);
+    }
+
+    this.setState('connected');
+
+    if (ENV.DEBUG) {
+      console.log(`[WS] Connected, socket ID ${this.socketId}`);
+    }
+
+    // (Re)subscribe to every channel we know about
+    for (const channelName of this.channels.keys()) {
+      this.channels.set(channelName, false);
+      this.sendSubscribe(channelName);
+    }
+  }
+
+  private handleClose(socket: WebSocketLike, code: number): void {
+    // Ignore sockets we already replaced or closed ourselves
+    if (socket !== this.socket) return;
+
+    this.socket = null;
+    this.socketId = null;
+    this.clearTimers();
+
+    for (const channelName of this.channels.keys()) {
+      this.channels.set(channelName, false);
+    }
+
+    // Pusher close codes 4000-4099: do not reconnect (e.g. bad app key)
+    if (!this.shouldReconnect || (code >= 4000 && code < 4100)) {
+      console.warn(`[WS] Connection closed (${code}), not reconnecting`);
+      this.shouldReconnect = false;
+      this.rejectAllPending(new Error(`WebSocket closed with code ${code}`));
+      this.setState('disconnected');
+      return;
+    }
+
+    // 4200-4299: reconnect immediately, everything else backs off
+    const delay = code >= 4200 && code < 4300 ? 0 : this.getReconnectDelay();
+    this.reconnectAttempts++;
+    this.setState('reconnecting');
+
+    if (ENV.DEBUG) {
+      console.log(`[WS] Connection closed (${code}), reconnecting in ${delay}ms`);
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private getReconnectDelay(): number {
+    const delay = WEBSOCKET_CONFIG.RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts);
+    return Math.min(delay, WEBSOCKET_CONFIG.RECONNECT_MAX_DELAY);
+  }
+
+  private resetActivityTimer(): void {
+    if (this.activityTimer) {
+      clearTimeout(this.activityTimer);
+    }
+
+    this.activityTimer = setTimeout(() => {
+      this.send({ event: 'pusher:ping', data: {} });
+
+      // No pong in time - assume the connection is dead
+      this.pongTimer = setTimeout(() => {
+        console.warn('[WS] Pong timeout, reconnecting');
+        this.socket?.close(4201, 'Pong timeout');
+      }, WEBSOCKET_CONFIG.PONG_TIMEOUT);
+    }, this.activityTimeout);
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.activityTimer) {
+      clearTimeout(this.activityTimer);
+      this.activityTimer = null;
+    }
+    this.clearPongTimer();
+  }
+
+  private send(message: PusherMessage): void {
+    if (!this.socket || this.state !== 'connected') {
+      console.warn(`[WS] Cannot send ${message.event} while ${this.state}`);
+      return;
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('connectionStateChanged', state);
+  }
+
+  private resolvePending(channelName: string): void {
+    this.pending.get(channelName)?.forEach(({ resolve }) => resolve());
+    this.pending.delete(channelName);
+  }
+
+  private rejectPending(channelName: string, error: Error): void {
+    this.pending.get(channelName)?.forEach(({ reject }) => reject(error));
+    this.pending.delete(channelName);
+  }
+
+  /**
+   * Reject every waiting subscribe and forget those channels, so subscribing
+   * again sends a fresh request
+   */
+  private failPendingSubscriptions(error: Error): void {
+    for (const channelName of [...this.pending.keys()]) {
+      if (!this.channels.get(channelName)) {
+        this.channels.delete(channelName);
+      }
+    }
+    this.rejectAllPending(error);
+  }
+
+  private rejectAllPending(error: Error): void {
+    for (const channelName of [...this.pending.keys()]) {
+      this.rejectPending(channelName, error);
+    }
+  }
+}
+
+/**
+ * Manager on an in-process Reverb server, with the fixture classmate in the lobby.
+ * Channels are still authorized through /broadcasting/auth (served by LocalApiServer).
+ */
+function createLocalManager(): WebSocketManager {
+  const server = new LocalReverbServer();
+  new LocalClassmate(server, CLASSMATE_ACCOUNT).joinLobby().catch((error) => {
+    console.error('[WS] Local classmate failed to join the lobby:', error);
+  });
+
+  return new WebSocketManager({ url: server.url, createSocket: server.createSocket });
+}
+
+// Export singleton instance (served locally when VITE_USE_MOCK_API=true)
+export const wsManager = ENV.USE_MOCK_API ? createLocalManager() : new WebSocketManager();
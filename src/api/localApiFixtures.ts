@@ -0,0 +1,455 @@
+/**
+ * Local API Fixtures
+ *
+ * Seed data served by LocalApiServer: a demo student, a classmate to battle
+ * in the PvP lobby, starter Siblons, wild Siblons for PvE and a handful of
+ * quizzes with their answer keys.
+ */
+
+import { ELEMENT_TYPES } from '../config/constants';
+import { calculateStat } from '../systems/TrainingBattleEngine';
+import type { PlayerSiblon, QuizDetail, SpeciesData, User } from './types';
+
+export interface FixtureAccount {
+  user: User;
+  password: string;
+  trainer_name: string;
+}
+
+export interface FixtureSpecies {
+  species_id: number;
+  species_name: string;
+  base: { hp: number; attack: number; defense: number; speed: number };
+  species_data: SpeciesData;
+}
+
+export interface FixtureAnswerKey {
+  choice_ids: number[]; // Correct choice IDs (empty for fill_blank)
+  accepted_text?: string[]; // Accepted fill_blank answers (case-insensitive)
+  explanation: string | null;
+}
+
+export interface FixtureQuiz {
+  detail: QuizDetail;
+  is_featured: boolean;
+  is_published: boolean;
+  answer_key: Record<number, FixtureAnswerKey>; // questionId -> answer
+}
+
+const { FIRE, WATER, GRASS, ELECTRIC, ROCK, WIND } = ELEMENT_TYPES;
+
+export const DEMO_ACCOUNT: FixtureAccount = {
+  user: {
+    id: 1,
+    username: 'demo',
+    name: 'Demo Student',
+    email: 'demo@siblo.test',
+    user_type: 'student',
+  },
+  password: 'password123',
+  trainer_name: 'Trainer Demo',
+};
+
+// Always online in the local PvP lobby (see LocalClassmate)
+export const CLASSMATE_ACCOUNT: FixtureAccount = {
+  user: {
+    id: 2,
+    username: 'kai',
+    name: 'Kai Classmate',
+    email: 'kai@siblo.test',
+    user_type: 'student',
+  },
+  password: 'password123',
+  trainer_name: 'Trainer Kai',
+};
+
+// App key of the local Reverb server
+export const LOCAL_REVERB_KEY = 'local-reverb-key';
+
+/**
+ * Channel signature the local Reverb server checks (not cryptographic)
+ */
+export function signLocalChannel(appKey: string, socketId: string, channelName: string): string {
+  return `${appKey}:${socketId}:${channelName}`;
+}
+
+export const SPECIES: FixtureSpecies[] = [
+  {
+    species_id: 1,
+    species_name: 'Flamara',
+    base: { hp: 45, attack: 55, defense: 40, speed: 60 },
+    species_data: {
+      dex_number: 1,
+      type_primary: FIRE,
+      type_secondary: null,
+      rarity: 'uncommon',
+      sprite_url: '/assets/siblons/flamara.png',
+      description: 'A fiery fox whose tail flickers brighter when it solves a problem.',
+    },
+  },
+  {
+    species_id: 4,
+    species_name: 'Aqualis',
+    base: { hp: 50, attack: 45, defense: 55, speed: 45 },
+    species_data: {
+      dex_number: 4,
+      type_primary: WATER,
+      type_secondary: null,
+      rarity: 'uncommon',
+      sprite_url: '/assets/siblons/aqualis.png',
+      description: 'A calm river otter that remembers every stream it has swum.',
+    },
+  },
+  {
+    species_id: 7,
+    species_name: 'Leafling',
+    base: { hp: 55, attack: 45, defense: 50, speed: 40 },
+    species_data: {
+      dex_number: 7,
+      type_primary: GRASS,
+      type_secondary: null,
+      rarity: 'common',
+      sprite_url: '/assets/siblons/leafling.png',
+      description: 'Grows a new leaf for every book it finishes.',
+    },
+  },
+  {
+    species_id: 10,
+    species_name: 'Voltik',
+    base: { hp: 35, attack: 50, defense: 35, speed: 75 },
+    species_data: {
+      dex_number: 10,
+      type_primary: ELECTRIC,
+      type_secondary: null,
+      rarity: 'common',
+      sprite_url: '/assets/siblons/voltik.png',
+      description: 'A quick little spark that hums when it is curious.',
+    },
+  },
+  {
+    species_id: 13,
+    species_name: 'Rockito',
+    base: { hp: 50, attack: 50, defense: 65, speed: 25 },
+    species_data: {
+      dex_number: 13,
+      type_primary: ROCK,
+      type_secondary: null,
+      rarity: 'common',
+      sprite_url: '/assets/siblons/rockito.png',
+      description: 'A pebble that never forgets a lesson, however long ago.',
+    },
+  },
+  {
+    species_id: 16,
+    species_name: 'Zephyra',
+    base: { hp: 40, attack: 50, defense: 40, speed: 70 },
+    species_data: {
+      dex_number: 16,
+      type_primary: WIND,
+      type_secondary: null,
+      rarity: 'rare',
+      sprite_url: '/assets/siblons/zephyra.png',
+      description: 'Rides the breeze between islands, carrying news.',
+    },
+  },
+];
+
+// Every new account starts with these (species ID and level)
+export const STARTER_SIBLONS: Array<{ species_id: number; level: number; nickname: string | null }> = [
+  { species_id: 1, level: 8, nickname: null },
+  { species_id: 4, level: 6, nickname: 'Splash' },
+];
+
+// Species that appear in PvE battles
+export const WILD_SPECIES_IDS = [7, 10, 13, 16];
+
+/**
+ * Build a Siblon instance of a fixture species
+ */
+export function createFixtureSiblon(
+  id: number,
+  speciesId: number,
+  level: number,
+  options: { nickname?: string | null; isInParty?: boolean } = {}
+): PlayerSiblon {
+  const species = SPECIES.find(s => s.species_id === speciesId) ?? SPECIES[0];
+  const maxHp = calculateStat(species.base.hp, level, 'hp');
+
+  return {
+    id,
+    species_id: species.species_id,
+    species_name: species.species_name,
+    nickname: options.nickname ?? null,
+    level,
+    experience_points: 0,
+    current_hp: maxHp,
+    max_hp: maxHp,
+    attack_stat: calculateStat(species.base.attack, level, 'other'),
+    defense_stat: calculateStat(species.base.defense, level, 'other'),
+    speed_stat: calculateStat(species.base.speed, level, 'other'),
+    is_in_party: options.isInParty ?? true,
+    caught_at: new Date().toISOString(),
+    species_data: { ...species.species_data },
+  };
+}
+
+export const QUIZZES: FixtureQuiz[] = [
+  {
+    is_featured: true,
+    is_published: true,
+    detail: {
+      id: 1,
+      title: 'Sample Math Quiz',
+      description: 'Test your math skills!',
+      subject: 'Mathematics',
+      topic: 'Basic Arithmetic',
+      difficulty_level: 'easy',
+      time_limit_minutes: null,
+      max_attempts: 3,
+      pass_threshold: 60,
+      questions: [
+        {
+          id: 1,
+          question_text: 'What is 2 + 2?',
+          question_type: 'multiple_choice',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 1, choice_text: '3', order_index: 0 },
+            { id: 2, choice_text: '4', order_index: 1 },
+            { id: 3, choice_text: '5', order_index: 2 },
+            { id: 4, choice_text: '6', order_index: 3 },
+          ],
+        },
+        {
+          id: 2,
+          question_text: 'What is $5 \\times 3$?',
+          question_type: 'multiple_choice',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 5, choice_text: '12', order_index: 0 },
+            { id: 6, choice_text: '15', order_index: 1 },
+            { id: 7, choice_text: '18', order_index: 2 },
+            { id: 8, choice_text: '20', order_index: 3 },
+          ],
+        },
+        {
+          id: 3,
+          question_text: 'What is 10 - 4?',
+          question_type: 'multiple_choice',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 9, choice_text: '5', order_index: 0 },
+            { id: 10, choice_text: '6', order_index: 1 },
+            { id: 11, choice_text: '7', order_index: 2 },
+            { id: 12, choice_text: '8', order_index: 3 },
+          ],
+        },
+        {
+          id: 4,
+          question_text: '7 x 8 = ___',
+          question_type: 'fill_blank',
+          points: 10,
+          media_url: null,
+          choices: [],
+        },
+      ],
+    },
+    answer_key: {
+      1: { choice_ids: [2], explanation: 'Two groups of two make four.' },
+      2: { choice_ids: [6], explanation: 'Five added three times: 5 + 5 + 5 = 15.' },
+      3: { choice_ids: [10], explanation: 'Counting back four from ten lands on six.' },
+      4: { choice_ids: [], accepted_text: ['56'], explanation: '7 x 8 = 56 (think 7 x 4 = 28, doubled).' },
+    },
+  },
+  {
+    is_featured: false,
+    is_published: true,
+    detail: {
+      id: 2,
+      title: 'Fractions and Powers',
+      description: 'Simplify fractions, square numbers and find roots.',
+      subject: 'Mathematics',
+      topic: 'Fractions',
+      difficulty_level: 'medium',
+      time_limit_minutes: 5,
+      max_attempts: 2,
+      pass_threshold: 70,
+      questions: [
+        {
+          id: 11,
+          question_text: 'Simplify $\\frac{6}{8}$.',
+          question_type: 'multiple_choice',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 101, choice_text: '$\\frac{3}{4}$', order_index: 0 },
+            { id: 102, choice_text: '$\\frac{2}{3}$', order_index: 1 },
+            { id: 103, choice_text: '$\\frac{6}{4}$', order_index: 2 },
+          ],
+        },
+        {
+          id: 12,
+          question_text: 'What is $3^2 + 4^2$?',
+          question_type: 'multiple_choice',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 104, choice_text: '14', order_index: 0 },
+            { id: 105, choice_text: '25', order_index: 1 },
+            { id: 106, choice_text: '49', order_index: 2 },
+          ],
+        },
+        {
+          id: 13,
+          question_text: 'Which of these are equal to 4?',
+          question_type: 'multiple_correct',
+          points: 20,
+          media_url: null,
+          choices: [
+            { id: 107, choice_text: '$\\sqrt{16}$', order_index: 0 },
+            { id: 108, choice_text: '$2^2$', order_index: 1 },
+            { id: 109, choice_text: '$\\frac{12}{4}$', order_index: 2 },
+            { id: 110, choice_text: '$\\frac{8}{2}$', order_index: 3 },
+          ],
+        },
+        {
+          id: 14,
+          question_text: '$\\sqrt{81} = $ ___',
+          question_type: 'fill_blank',
+          points: 10,
+          media_url: null,
+          choices: [],
+        },
+      ],
+    },
+    answer_key: {
+      11: { choice_ids: [101], explanation: 'Divide the top and bottom by 2.' },
+      12: { choice_ids: [105], explanation: '9 + 16 = 25.' },
+      13: { choice_ids: [107, 108, 110], explanation: '12 / 4 is 3, the others are all 4.' },
+      14: { choice_ids: [], accepted_text: ['9', 'nine'], explanation: '9 x 9 = 81.' },
+    },
+  },
+  {
+    is_featured: false,
+    is_published: true,
+    detail: {
+      id: 3,
+      title: 'States of Matter',
+      description: 'Solids, liquids and gases.',
+      subject: 'Science',
+      topic: 'Matter',
+      difficulty_level: 'easy',
+      time_limit_minutes: 10,
+      max_attempts: null,
+      pass_threshold: 60,
+      questions: [
+        {
+          id: 21,
+          question_text: 'Water freezes into ice. Ice is a...',
+          question_type: 'multiple_choice',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 201, choice_text: 'Solid', order_index: 0 },
+            { id: 202, choice_text: 'Liquid', order_index: 1 },
+            { id: 203, choice_text: 'Gas', order_index: 2 },
+          ],
+        },
+        {
+          id: 22,
+          question_text: 'Steam is water in its gas form.',
+          question_type: 'true_false',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 204, choice_text: 'True', order_index: 0 },
+            { id: 205, choice_text: 'False', order_index: 1 },
+          ],
+        },
+        {
+          id: 23,
+          question_text: 'A liquid turning into a gas is called ___.',
+          question_type: 'fill_blank',
+          points: 10,
+          media_url: null,
+          choices: [],
+        },
+      ],
+    },
+    answer_key: {
+      21: { choice_ids: [201], explanation: 'Ice keeps its own shape, so it is a solid.' },
+      22: { choice_ids: [204], explanation: 'Boiling water turns into steam, a gas.' },
+      23: {
+        choice_ids: [],
+        accepted_text: ['evaporation', 'boiling', 'vaporization'],
+        explanation: 'Evaporation (or boiling, when it happens quickly).',
+      },
+    },
+  },
+  {
+    is_featured: true,
+    is_published: true,
+    detail: {
+      id: 4,
+      title: 'Parts of Speech',
+      description: 'Nouns, verbs and adjectives.',
+      subject: 'English',
+      topic: 'Grammar',
+      difficulty_level: 'hard',
+      time_limit_minutes: 3,
+      max_attempts: 1,
+      pass_threshold: 80,
+      questions: [
+        {
+          id: 31,
+          question_text: 'In "The quick fox jumps", which word is the verb?',
+          question_type: 'multiple_choice',
+          points: 10,
+          media_url: null,
+          choices: [
+            { id: 301, choice_text: 'quick', order_index: 0 },
+            { id: 302, choice_text: 'fox', order_index: 1 },
+            { id: 303, choice_text: 'jumps', order_index: 2 },
+          ],
+        },
+        {
+          id: 32,
+          question_text: 'Which words are adjectives?',
+          question_type: 'multiple_correct',
+          points: 20,
+          media_url: null,
+          choices: [
+            { id: 304, choice_text: 'bright', order_index: 0 },
+            { id: 305, choice_text: 'run', order_index: 1 },
+            { id: 306, choice_text: 'tiny', order_index: 2 },
+            { id: 307, choice_text: 'river', order_index: 3 },
+          ],
+        },
+      ],
+    },
+    answer_key: {
+      31: { choice_ids: [303], explanation: 'A verb is an action - the fox jumps.' },
+      32: { choice_ids: [304, 306], explanation: 'Adjectives describe nouns: bright, tiny.' },
+    },
+  },
+  {
+    is_featured: false,
+    is_published: false,
+    detail: {
+      id: 5,
+      title: 'Volcanoes (Draft)',
+      description: 'Not published yet.',
+      subject: 'Science',
+      topic: 'Earth',
+      difficulty_level: 'medium',
+      time_limit_minutes: null,
+      max_attempts: null,
+      pass_threshold: 60,
+      questions: [],
+    },
+    answer_key: {},
+  },
+];
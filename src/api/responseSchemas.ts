@@ -0,0 +1,252 @@
+/**
+ * Response Schemas
+ *
+ * Runtime validators for the response types in types.ts, checked by the
+ * services. Each one is typed against its interface, so a required field
+ * added to types.ts but not to its schema fails the type-check.
+ */
+
+import * as v from './validation';
+import type {
+  AuthResponse,
+  BattlePlayer,
+  BattleRewards,
+  BattleState,
+  CatchSiblonResponse,
+  DailyActivity,
+  ForfeitBattleResponse,
+  GetQuizzesResponse,
+  LogoutResponse,
+  PlayerProfile,
+  PlayerSiblon,
+  QuizDetail,
+  SiblonsResponse,
+  StartBattleResponse,
+  StartQuizResponse,
+  SubmitQuizResponse,
+} from './types';
+
+const difficultyLevel = v.oneOf('easy', 'medium', 'hard');
+const battleStatus = v.oneOf('active', 'completed', 'forfeited');
+
+// ===========================================
+// Authentication
+// ===========================================
+
+export const authResponse: v.Validator<AuthResponse> = v.object({
+  message: v.string,
+  token: v.string,
+  user: v.object({
+    id: v.number,
+    username: v.string,
+    name: v.string,
+    email: v.string,
+    user_type: v.oneOf('student'),
+  }),
+});
+
+export const logoutResponse: v.Validator<LogoutResponse> = v.object({
+  message: v.string,
+});
+
+// ===========================================
+// Player
+// ===========================================
+
+export const playerProfile: v.Validator<PlayerProfile> = v.object({
+  id: v.number,
+  user_id: v.number,
+  username: v.string,
+  name: v.string,
+  trainer_name: v.string,
+  level: v.number,
+  experience_points: v.number,
+  coins: v.number,
+  current_region_id: v.nullable(v.number),
+});
+
+const playerSiblon: v.Validator<PlayerSiblon> = v.object({
+  id: v.number,
+  species_id: v.number,
+  species_name: v.string,
+  nickname: v.nullable(v.string),
+  level: v.number,
+  experience_points: v.number,
+  current_hp: v.number,
+  max_hp: v.number,
+  attack_stat: v.number,
+  defense_stat: v.number,
+  speed_stat: v.number,
+  is_in_party: v.boolean,
+  caught_at: v.string,
+  species_data: v.object({
+    dex_number: v.number,
+    type_primary: v.string,
+    type_secondary: v.nullable(v.string),
+    rarity: v.oneOf('common', 'uncommon', 'rare', 'legendary'),
+    sprite_url: v.string,
+    description: v.string,
+  }),
+  moves: v.optional(v.arrayOf(v.string)),
+});
+
+export const siblonsResponse: v.Validator<SiblonsResponse> = v.object({
+  party: v.arrayOf(playerSiblon),
+  collection: v.arrayOf(playerSiblon),
+  total_count: v.number,
+});
+
+export const dailyActivity: v.Validator<DailyActivity> = v.object({
+  activity_date: v.string,
+  quizzes_completed: v.number,
+  experience_gained: v.number,
+  battles_won: v.number,
+  battles_lost: v.number,
+  login_streak: v.number,
+});
+
+// ===========================================
+// Quizzes
+// ===========================================
+
+export const getQuizzesResponse: v.Validator<GetQuizzesResponse> = v.object({
+  quizzes: v.arrayOf(v.object({
+    id: v.number,
+    title: v.string,
+    description: v.nullable(v.string),
+    subject: v.string,
+    topic: v.string,
+    difficulty_level: difficultyLevel,
+    time_limit_minutes: v.nullable(v.number),
+    max_attempts: v.nullable(v.number),
+    pass_threshold: v.number,
+    question_count: v.number,
+    is_featured: v.boolean,
+  })),
+});
+
+export const quizDetail: v.Validator<QuizDetail> = v.object({
+  id: v.number,
+  title: v.string,
+  description: v.nullable(v.string),
+  subject: v.string,
+  topic: v.string,
+  difficulty_level: difficultyLevel,
+  time_limit_minutes: v.nullable(v.number),
+  max_attempts: v.nullable(v.number),
+  pass_threshold: v.number,
+  questions: v.arrayOf(v.object({
+    id: v.number,
+    question_text: v.string,
+    question_type: v.oneOf('multiple_choice', 'true_false', 'fill_blank', 'multiple_correct'),
+    points: v.number,
+    media_url: v.nullable(v.string),
+    choices: v.arrayOf(v.object({
+      id: v.number,
+      choice_text: v.string,
+      order_index: v.number,
+    })),
+  })),
+});
+
+export const startQuizResponse: v.Validator<StartQuizResponse> = v.object({
+  attempt_id: v.number,
+  quiz_id: v.number,
+  started_at: v.string,
+  expires_at: v.nullable(v.string),
+});
+
+export const submitQuizResponse: v.Validator<SubmitQuizResponse> = v.object({
+  score: v.number,
+  max_score: v.number,
+  percentage: v.number,
+  passed: v.boolean,
+  time_taken: v.number,
+  rewards: v.object({
+    experience_points: v.number,
+    coins: v.number,
+    items: v.arrayOf(v.unknown),
+  }),
+  answers: v.arrayOf(v.object({
+    question_id: v.number,
+    is_correct: v.boolean,
+    correct_answer: v.arrayOf(v.number),
+    correct_text: v.optional(v.nullable(v.string)),
+    points_earned: v.number,
+    explanation: v.nullable(v.string),
+  })),
+});
+
+// ===========================================
+// Battles
+// ===========================================
+
+const battlePlayer: v.Validator<BattlePlayer> = v.object({
+  user_id: v.nullable(v.number),
+  username: v.string,
+  siblon_id: v.nullable(v.number),
+  siblon_name: v.string,
+  hp: v.number,
+  max_hp: v.number,
+  level: v.number,
+  status: v.optional(v.nullable(v.oneOf('burn', 'poison', 'paralyze'))),
+  stat_stages: v.optional(v.recordOf(v.number)),
+});
+
+const battleRewards: v.Validator<BattleRewards> = v.object({
+  experience_points: v.number,
+  coins: v.number,
+  items: v.arrayOf(v.object({
+    item_id: v.string,
+    name: v.string,
+    quantity: v.number,
+  })),
+  can_catch: v.boolean,
+  siblon_xp_distribution: v.optional(v.arrayOf(v.object({
+    siblon_id: v.number,
+    xp_gained: v.number,
+  }))),
+});
+
+export const startBattleResponse: v.Validator<StartBattleResponse> = v.object({
+  battle_id: v.string,
+  player1: battlePlayer,
+  player2: battlePlayer,
+  current_turn: v.number,
+  turn_player_id: v.number,
+  status: battleStatus,
+});
+
+export const battleState: v.Validator<BattleState> = v.object({
+  battle_id: v.string,
+  status: battleStatus,
+  player1: battlePlayer,
+  player2: battlePlayer,
+  current_turn: v.number,
+  turn_player_id: v.number,
+  winner_id: v.nullable(v.number),
+  started_at: v.string,
+  completed_at: v.nullable(v.string),
+  battle_log: v.arrayOf(v.object({
+    action: v.string,
+    player_id: v.nullable(v.number),
+    message: v.string,
+    timestamp: v.optional(v.string),
+    player1_hp: v.optional(v.number),
+    player2_hp: v.optional(v.number),
+  })),
+  rewards: v.optional(v.nullable(battleRewards)),
+});
+
+export const forfeitBattleResponse: v.Validator<ForfeitBattleResponse> = v.object({
+  message: v.string,
+  battle_id: v.string,
+  winner_id: v.nullable(v.number),
+  status: battleStatus,
+});
+
+export const catchSiblonResponse: v.Validator<CatchSiblonResponse> = v.object({
+  caught: v.boolean,
+  message: v.string,
+  siblon: v.nullable(playerSiblon),
+});
@@ -84,6 +84,7 @@ export interface PlayerSiblon {
   is_in_party: boolean; // True if in active party (max 6)
   caught_at: string; // ISO 8601 timestamp when caught
   species_data: SpeciesData; // Complete species information
+  moves?: string[]; // Known move IDs (client falls back to the learnset if missing)
 }
 
 export interface SiblonsResponse {
@@ -163,7 +164,8 @@ export interface StartQuizResponse {
 
 export interface Answer {
   question_id: number;
-  selected_choice_ids: number[];
+  selected_choice_ids: number[]; // Empty for fill_blank questions
+  text_answer?: string; // Typed answer for fill_blank questions
 }
 
 export interface SubmitQuizRequest {
@@ -174,6 +176,7 @@ export interface QuizAnswerResult {
   question_id: number;
   is_correct: boolean;
   correct_answer: number[]; // Array of correct choice IDs
+  correct_text?: string | null; // Expected answer for fill_blank questions
   points_earned: number;
   explanation: string | null;
 }
@@ -205,8 +208,13 @@ export interface StartBattleRequest {
   player_siblon_id: number;
   battle_type: BattleType;
   opponent_id?: number; // Required for PvP
+  opponent_siblon_id?: number; // PvP: Siblon the opponent picked in the lobby (server defaults to their lead)
 }
 
+export type StatusCondition = 'burn' | 'poison' | 'paralyze';
+export type BattleStat = 'attack' | 'defense' | 'speed';
+export type StatStages = Partial<Record<BattleStat, number>>; // -6 to +6, omitted when 0
+
 export interface BattlePlayer {
   user_id: number | null;
   username: string;
@@ -215,6 +223,8 @@ export interface BattlePlayer {
   hp: number;
   max_hp: number;
   level: number;
+  status?: StatusCondition | null;
+  stat_stages?: StatStages;
 }
 
 export interface StartBattleResponse {
@@ -231,6 +241,8 @@ export interface BattleLogEntry {
   player_id: number | null;
   message: string;
   timestamp?: string;
+  player1_hp?: number; // HP after this entry, when provided (used by replays)
+  player2_hp?: number;
 }
 
 export interface BattleState {
@@ -244,8 +256,44 @@ export interface BattleState {
   started_at: string; // ISO 8601 timestamp
   completed_at: string | null; // ISO 8601 timestamp
   battle_log: BattleLogEntry[];
+  rewards?: BattleRewards | null; // Winner's rewards once the battle is completed
+}
+
+export interface BattleRewardItem {
+  item_id: string;
+  name: string;
+  quantity: number;
+}
+
+export interface SiblonXpGain {
+  siblon_id: number;
+  xp_gained: number;
+}
+
+export interface BattleRewards {
+  experience_points: number;
+  coins: number;
+  items: BattleRewardItem[];
+  can_catch: boolean; // PvE only: the wild Siblon can be caught
+  siblon_xp_distribution?: SiblonXpGain[]; // Client splits the XP across the party if missing
 }
 
+export interface CatchSiblonRequest {
+  throw_quality: number; // 0-1, how well the catch mini-game was timed
+}
+
+export interface CatchSiblonResponse {
+  caught: boolean;
+  message: string;
+  siblon: PlayerSiblon | null; // The new Siblon when caught
+}
+
+export interface SubmitBattleActionRequest {
+  move_id: string; // Move selected by the player
+}
+
+export type SubmitBattleActionResponse = BattleState;
+
 export interface ForfeitBattleResponse {
   message: string;
   battle_id: string;
@@ -253,6 +301,96 @@ export interface ForfeitBattleResponse {
   status: BattleStatus;
 }
 
+// ===========================================
+// Real-time (Reverb) Types
+// ===========================================
+
+export interface BroadcastingAuthRequest {
+  socket_id: string;
+  channel_name: string;
+}
+
+export interface BroadcastingAuthResponse {
+  auth: string; // "app_key:signature"
+  channel_data?: string; // JSON-encoded member info (presence channels)
+}
+
+export interface BattleMoveExecutedEvent {
+  battle_id: string;
+  attacker_id: number;
+  defender_id: number;
+  move: string;
+  damage: number;
+  defender_new_hp: number;
+  is_critical?: boolean;
+  is_knockout: boolean;
+  current_turn: number;
+  message?: string;
+}
+
+export interface BattleTurnChangedEvent {
+  battle_id: string;
+  current_turn: number;
+  turn_player_id: number;
+}
+
+export interface BattleEndedEvent {
+  battle_id: string;
+  winner_id: number | null;
+  rewards: {
+    xp: number;
+    coins: number;
+  };
+}
+
+export interface MoveIntent {
+  player_id: number;
+  move_id: string;
+  target_siblon_id: number | null;
+}
+
+export interface PresenceMember {
+  id: number; // User ID
+  info: {
+    name: string; // Trainer name
+    level?: number;
+  };
+}
+
+// ===========================================
+// PvP Lobby Types (client events on the lobby presence channel)
+// ===========================================
+
+export interface LobbyChallenge {
+  challenge_id: string;
+  from_user_id: number;
+  from_name: string;
+  to_user_id: number;
+  expires_at: string; // ISO timestamp
+}
+
+export interface LobbyChallengeResponse {
+  challenge_id: string;
+  from_user_id: number; // Who answered
+  to_user_id: number; // Who sent the challenge
+  accepted: boolean;
+  siblon_id: number | null; // Siblon picked by the player who accepted
+}
+
+export interface LobbyChallengeCancelled {
+  challenge_id: string;
+  from_user_id: number;
+  to_user_id: number;
+  reason: 'cancelled' | 'timeout';
+}
+
+export interface LobbyBattleStarted {
+  challenge_id: string;
+  from_user_id: number;
+  to_user_id: number;
+  battle_id: string; // UUID
+}
+
 // ===========================================
 // Error Types
 // ===========================================
@@ -269,15 +407,18 @@ export interface ApiErrorResponse {
 export class ApiError extends Error {
   public statusCode: number;
   public errors?: ValidationErrors;
+  public retryAfter?: number; // ms to wait, from the Retry-After header (429/503)
 
   constructor(
     message: string,
     statusCode: number,
-    errors?: ValidationErrors
+    errors?: ValidationErrors,
+    retryAfter?: number
   ) {
     super(message);
     this.name = 'ApiError';
     this.statusCode = statusCode;
     this.errors = errors;
+    this.retryAfter = retryAfter;
   }
 }
@@ -0,0 +1,183 @@
+/**
+ * Response Validation
+ *
+ * Small validators for checking API responses at runtime, so a backend shape
+ * change fails at the service call with the path that broke
+ * (e.g. "party[0].species_data: expected object, got undefined") instead of
+ * deep inside a scene's render code.
+ *
+ * Validators mirror the interfaces in types.ts (see responseSchemas.ts).
+ * In development, fields the server sends that aren't in types.ts are
+ * reported once, so backend additions are spotted early.
+ */
+
+import { ENV } from '../config/env';
+import { ApiError } from './types';
+
+/**
+ * Checks a value and returns it typed; throws SchemaError on a mismatch
+ */
+export type Validator<T> = (value: unknown, path: string, context: ValidationContext) => T;
+
+interface ValidationContext {
+  unknownFields: string[]; // Paths of fields the schema doesn't list
+}
+
+type Shape = Record<string, Validator<unknown>>;
+
+type ShapeType<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+class SchemaError extends Error {
+  public path: string;
+
+  constructor(path: string, message: string) {
+    super(message);
+    this.name = 'SchemaError';
+    this.path = path;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 20 ? `${value.slice(0, 20)}...` : value}"`;
+  return typeof value;
+}
+
+function expected(path: string, type: string, value: unknown): SchemaError {
+  return new SchemaError(path, `expected ${type}, got ${describe(value)}`);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// ===========================================
+// Validators
+// ===========================================
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw expected(path, 'string', value);
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw expected(path, 'number', value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw expected(path, 'boolean', value);
+  return value;
+};
+
+/**
+ * Anything (fields the client passes through without reading)
+ */
+export const unknown: Validator<unknown> = (value) => value;
+
+export function oneOf<T extends string>(...values: T[]): Validator<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) throw expected(path, values.map(v => `"${v}"`).join(' | '), value);
+    return value as T;
+  };
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path, context) => (value === null ? null : validator(value, path, context));
+}
+
+/**
+ * Field that may be left out (undefined)
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path, context) => (value === undefined ? undefined : validator(value, path, context));
+}
+
+export function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path, context) => {
+    if (!Array.isArray(value)) throw expected(path, 'array', value);
+    return value.map((item, index) => validator(item, childPath(path, index), context));
+  };
+}
+
+/**
+ * Object with these fields; extra fields are allowed but noted
+ */
+export function object<S extends Shape>(shape: S): Validator<ShapeType<S>> {
+  return (value, path, context) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw expected(path, 'object', value);
+    }
+
+    const record = value as Record<string, unknown>;
+    Object.entries(shape).forEach(([key, validator]) => {
+      validator(record[key], childPath(path, key), context);
+    });
+
+    Object.keys(record)
+      .filter(key => !(key in shape))
+      .forEach(key => context.unknownFields.push(childPath(path, key)));
+
+    return value as ShapeType<S>;
+  };
+}
+
+/**
+ * Object whose keys aren't known ahead of time (e.g. stat stages)
+ */
+export function recordOf<T>(validator: Validator<T>): Validator<Record<string, T>> {
+  return (value, path, context) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw expected(path, 'object', value);
+    }
+
+    Object.entries(value).forEach(([key, item]) => validator(item, childPath(path, key), context));
+    return value as Record<string, T>;
+  };
+}
+
+// ===========================================
+// Checking responses
+// ===========================================
+
+const reportedFields = new Set<string>(); // "Type.path", reported once per session
+
+/**
+ * Check a response against its schema
+ * @param name - Type name from types.ts, used in messages
+ * @throws ApiError naming the failing path (errors: { [path]: [message] })
+ */
+export function validateResponse<T>(validator: Validator<T>, data: unknown, name: string): T {
+  const context: ValidationContext = { unknownFields: [] };
+
+  try {
+    validator(data, '', context);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+
+    const path = error.path || '(response)';
+    console.error(`[API] Invalid ${name} at ${path}: ${error.message}`, data);
+    // The request succeeded (200) - it's the body that doesn't match types.ts
+    throw new ApiError(`Unexpected ${name} from server: ${path} ${error.message}`, 200, {
+      [path]: [error.message],
+    });
+  }
+
+  if (ENV.IS_DEV) {
+    reportUnknownFields(name, context.unknownFields);
+  }
+
+  return data as T;
+}
+
+function reportUnknownFields(name: string, paths: string[]): void {
+  // party[0].x and party[1].x are the same field
+  const fields = [...new Set(paths.map(path => path.replace(/\[\d+\]/g, '[]')))]
+    .filter(field => !reportedFields.has(`${name}.${field}`));
+  if (fields.length === 0) return;
+
+  fields.forEach(field => reportedFields.add(`${name}.${field}`));
+  console.warn(`[API] ${name} has fields missing from types.ts: ${fields.join(', ')}`);
+}
@@ -37,13 +37,16 @@ export const API_ENDPOINTS = {
   battles: {
     start: '/api/battles/start',
     state: (id: string) => `/api/battles/${id}`,
+    action: (id: string) => `/api/battles/${id}/action`,
     forfeit: (id: string) => `/api/battles/${id}/forfeit`,
+    catch: (id: string) => `/api/battles/${id}/catch`,
   },
 
   // WebSocket Endpoints
   websocket: {
     auth: '/broadcasting/auth',
     battle: (battleId: string) => `battle.${battleId}`,
+    lobby: 'lobby',
   },
 } as const;
 
@@ -5,6 +5,8 @@
  * These values are code-level constants and don't change per environment.
  */
 
+import type { StatusCondition } from '../api/types';
+
 // Game World Configuration
 export const GAME_CONFIG = {
   TILE_SIZE: 32,
@@ -40,8 +42,19 @@ export const SCENE_NAMES = {
   MENU: 'menu',
   OVERWORLD: 'overworld',
   BATTLE: 'battle',
+  TRAINING: 'training',
+  REPLAY: 'replay',
+  LOBBY: 'lobby',
+  PVP_BATTLE: 'pvp_battle',
+  BATTLE_RESULTS: 'battle_results',
+  QUIZ_SELECT: 'quiz_select',
   QUIZ: 'quiz',
   COLLECTION: 'collection',
+
+  // Overlay scenes (pushed on top of a paused scene)
+  PAUSE_MENU: 'pause_menu',
+  PARTY: 'party',
+  DIALOG: 'dialog',
 } as const;
 
 // Input Keybinds
@@ -69,6 +82,9 @@ export const QUIZ_CONFIG = {
   PASS_THRESHOLD: 60, // 60% to pass
   EXCELLENCE_THRESHOLD: 80, // 80% for bonus rewards
   PERFECT_THRESHOLD: 100, // 100% for maximum rewards
+  VISIBLE_QUIZZES: 5, // Quizzes listed per page in the quiz browser
+  TIMER_WARNING_SECONDS: 60, // Countdown turns red below this
+  MEDIA_MAX_HEIGHT: 170, // Height of the image area beside a question
 
   REWARDS_MULTIPLIER: {
     PASS: 1.0,
@@ -81,6 +97,31 @@ export const QUIZ_CONFIG = {
 export const BATTLE_CONFIG = {
   CRITICAL_HIT_CHANCE: 0.1, // 10% chance
   CRITICAL_HIT_MULTIPLIER: 1.5,
+  DEFAULT_MOVE: 'tackle', // Learned at level 1; usable without PP once every move is out
+  MAX_MOVES: 4, // Moves a Siblon can know at once
+
+  // Client timing
+  STATE_POLL_INTERVAL: 2, // Seconds between battle state refreshes
+  RESULT_DISPLAY_TIME: 3, // Seconds to show the outcome before leaving
+  LOG_VISIBLE_ENTRIES: 5, // Battle log lines shown at once
+  REPLAY_STEP_INTERVAL: 1.2, // Seconds per log entry at 1x replay speed
+  REPLAY_SPEEDS: [1, 2, 4], // Replay speed multipliers, cycled by the speed button
+  XP_BAR_FILL_TIME: 1.5, // Seconds to animate each Siblon's XP gain
+
+  // Rewards (SIBLO.md "Battle Rewards")
+  REWARDS: {
+    XP_PER_OPPONENT_LEVEL: 50,
+    COINS_PER_OPPONENT_LEVEL: 10,
+    LEVEL_DIFF_BONUS: 0.1, // +10% XP per level the opponent is above you
+    CATCH_CHANCE: 0.3, // PvE only
+    PARTICIPANT_XP_WEIGHT: 2, // The Siblon that fought gets a double share
+  },
+
+  // Catch mini-game
+  CATCH: {
+    NEEDLE_SPEED: 1.2, // Bar sweeps per second
+    TARGET_ZONE: 0.2, // Width of the sweet spot (fraction of the bar)
+  },
 
   // Type effectiveness multipliers
   TYPE_EFFECTIVENESS: {
@@ -90,6 +131,18 @@ export const BATTLE_CONFIG = {
     NO_EFFECT: 0.0,
   },
 
+  // Status effects
+  STATUS: {
+    BURN_DAMAGE: 1 / 16, // Fraction of max HP lost each turn
+    POISON_DAMAGE: 1 / 8, // Fraction of max HP lost each turn
+    BURN_ATTACK_MULTIPLIER: 0.5, // Burned Siblons hit softer
+    PARALYSIS_SKIP_CHANCE: 25, // % chance to lose the turn
+    PARALYSIS_SPEED_MULTIPLIER: 0.5,
+    CONDITION_DURATION: 5, // Turns before a condition wears off
+    STAT_STAGE_DURATION: 5, // Turns before stat changes reset
+    MAX_STAT_STAGE: 6, // Stages cap at +/-6
+  },
+
   // Battle Types
   BATTLE_TYPES: {
     PVE: 'pve',
@@ -98,6 +151,40 @@ export const BATTLE_CONFIG = {
   } as const,
 } as const;
 
+// HTTP API Configuration
+export const API_CONFIG = {
+  MAX_RETRIES: 3, // Extra tries after a failed request (idempotent requests only)
+  RETRY_BASE_DELAY: 500, // First retry delay before jitter (ms)
+  RETRY_MAX_DELAY: 8000, // Backoff cap, also caps Retry-After (ms)
+  RETRY_STATUSES: [408, 429, 500, 502, 503, 504], // Worth trying again
+  IDEMPOTENT_METHODS: ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'], // Safe to repeat
+  SYNC_INTERVAL: 30000, // How often queued offline submissions are retried (ms)
+} as const;
+
+// WebSocket (Reverb) Configuration
+export const WEBSOCKET_CONFIG = {
+  PROTOCOL_VERSION: 7, // Pusher protocol spoken by Reverb
+  ACTIVITY_TIMEOUT: 30000, // Send a ping after this much silence (ms)
+  PONG_TIMEOUT: 10000, // Reconnect if no pong arrives in time (ms)
+  RECONNECT_BASE_DELAY: 1000, // First reconnect delay (ms)
+  RECONNECT_MAX_DELAY: 30000, // Backoff cap (ms)
+} as const;
+
+// PvP Lobby Configuration
+export const LOBBY_CONFIG = {
+  CHALLENGE_TIMEOUT: 30, // Seconds before an unanswered challenge expires
+  START_TIMEOUT: 15, // Seconds to wait for the challenger to start an accepted battle
+  VISIBLE_MEMBERS: 6, // Classmates listed at once
+} as const;
+
+// Client event names on the lobby channel
+export const LOBBY_EVENTS = {
+  CHALLENGE: 'client-challenge',
+  RESPONSE: 'client-challenge-response',
+  CANCELLED: 'client-challenge-cancelled',
+  BATTLE_STARTED: 'client-battle-started',
+} as const;
+
 // Elemental Types
 export const ELEMENT_TYPES = {
   FIRE: 'Fire',
@@ -109,30 +196,24 @@ export const ELEMENT_TYPES = {
   NORMAL: 'Normal',
 } as const;
 
-// Type Effectiveness Chart (simplified)
-// TODO: Move to config/typeChart.ts for full implementation
-export const TYPE_CHART: Record<string, Record<string, number>> = {
-  Fire: {
-    Grass: 2.0,
-    Water: 0.5,
-    Fire: 0.5,
-  },
-  Water: {
-    Fire: 2.0,
-    Grass: 0.5,
-    Water: 0.5,
-  },
-  Grass: {
-    Water: 2.0,
-    Fire: 0.5,
-    Grass: 0.5,
-  },
-  Electric: {
-    Water: 2.0,
-    Grass: 0.5,
-    Electric: 0.5,
-  },
-  // ... Add more as needed
+export type ElementType = typeof ELEMENT_TYPES[keyof typeof ELEMENT_TYPES];
+
+// Element colors (move buttons, type badges)
+export const ELEMENT_COLORS: Record<ElementType, number> = {
+  Fire: 0xE8553A,
+  Water: 0x3A8EE8,
+  Grass: 0x4CAF50,
+  Electric: 0xE8C53A,
+  Rock: 0x9C7A4A,
+  Wind: 0x7FC8C8,
+  Normal: 0x8B8B8B,
+};
+
+// Status condition badges (battle panels)
+export const STATUS_BADGES: Record<StatusCondition, { label: string; color: number }> = {
+  burn: { label: 'BRN', color: 0xE8553A },
+  poison: { label: 'PSN', color: 0x9B59B6 },
+  paralyze: { label: 'PAR', color: 0xE8C53A },
 };
 
 // Asset Paths
@@ -149,5 +230,7 @@ export const ASSET_PATHS = {
 export const STORAGE_KEYS = {
   AUTH_TOKEN: 'siblo_auth_token',
   PLAYER_DATA: 'siblo_player_data',
+  QUIZ_ATTEMPT: 'siblo_quiz_attempt',
+  SYNC_QUEUE: 'siblo_sync_queue',
   SETTINGS: 'siblo_settings',
 } as const;
@@ -20,6 +20,12 @@ export const ENV = {
   GAME_WIDTH: parseInt(import.meta.env.VITE_GAME_WIDTH as string) || 800,
   GAME_HEIGHT: parseInt(import.meta.env.VITE_GAME_HEIGHT as string) || 600,
   DEBUG: import.meta.env.VITE_GAME_DEBUG === 'true',
+  IS_DEV: import.meta.env.DEV, // Vite dev server (reports API fields missing from types.ts)
+
+  // Local mock API (play without the Laravel server)
+  USE_MOCK_API: import.meta.env.VITE_USE_MOCK_API === 'true',
+  MOCK_API_LATENCY: parseInt(import.meta.env.VITE_MOCK_API_LATENCY as string) || 300,
+  MOCK_API_FAILURE_RATE: parseFloat(import.meta.env.VITE_MOCK_API_FAILURE_RATE as string) || 0,
 } as const;
 
 /**
@@ -29,7 +35,7 @@ export const ENV = {
 export function validateEnv(): void {
   const errors: string[] = [];
 
-  if (!ENV.API_URL) {
+  if (!ENV.API_URL && !ENV.USE_MOCK_API) {
     errors.push('VITE_API_URL is required. Check your .env file.');
   }
 
@@ -46,6 +52,9 @@ export function validateEnv(): void {
     console.log(`  - Game Size: ${ENV.GAME_WIDTH}x${ENV.GAME_HEIGHT}`);
     console.log(`  - Reverb: ${ENV.REVERB_SCHEME}://${ENV.REVERB_HOST}:${ENV.REVERB_PORT}`);
     console.log(`  - Debug Mode: ${ENV.DEBUG}`);
+    console.log(`  - Mock API: ${ENV.USE_MOCK_API}`);
+  } else if (ENV.USE_MOCK_API) {
+    console.log('[ENV] Using local mock API (no backend)');
   } else {
     console.log(`[ENV] Connected to API: ${ENV.API_URL}`);
   }
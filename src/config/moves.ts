@@ -0,0 +1,465 @@
+/**
+ * Move Database
+ *
+ * All moves Siblons can learn, plus learnsets (per species, falling back to
+ * the species' types) that decide which moves a Siblon knows at a given
+ * level (SIBLO.md "Moves & Abilities").
+ * Only the last MAX_MOVES learned are kept, so the level 1 move is
+ * eventually forgotten (it stays available as the out-of-PP fallback).
+ */
+
+import { ELEMENT_TYPES, BATTLE_CONFIG, type ElementType } from './constants';
+import { isElementType } from './typeChart';
+import type { BattleStat, PlayerSiblon } from '../api/types';
+
+export type MoveCategory = 'physical' | 'special' | 'status';
+export type MoveEffectType = 'burn' | 'poison' | 'paralyze' | 'stat_change';
+export type MoveStat = BattleStat;
+
+export interface MoveEffect {
+  type: MoveEffectType;
+  chance: number; // 0-100
+  target: 'self' | 'opponent';
+  stat?: MoveStat; // For stat_change
+  stages?: number; // For stat_change (+ raises, - lowers)
+}
+
+export interface Move {
+  id: string;
+  name: string;
+  type: ElementType;
+  category: MoveCategory;
+  power: number; // 0 for status moves
+  accuracy: number; // 0-100
+  pp: number; // Power Points (uses per battle)
+  description: string;
+  effect?: MoveEffect; // Special effects (poison, burn, stat changes)
+}
+
+export interface LearnsetEntry {
+  level: number;
+  moveId: string;
+}
+
+const { FIRE, WATER, GRASS, ELECTRIC, ROCK, WIND, NORMAL } = ELEMENT_TYPES;
+
+export const MOVE_DATABASE: Record<string, Move> = {
+  // Normal
+  tackle: {
+    id: 'tackle',
+    name: 'Tackle',
+    type: NORMAL,
+    category: 'physical',
+    power: 30,
+    accuracy: 100,
+    pp: 35,
+    description: 'A full-body charge at the target.',
+  },
+  growl: {
+    id: 'growl',
+    name: 'Growl',
+    type: NORMAL,
+    category: 'status',
+    power: 0,
+    accuracy: 100,
+    pp: 40,
+    description: "Lowers the target's Attack.",
+    effect: { type: 'stat_change', chance: 100, target: 'opponent', stat: 'attack', stages: -1 },
+  },
+  harden: {
+    id: 'harden',
+    name: 'Harden',
+    type: NORMAL,
+    category: 'status',
+    power: 0,
+    accuracy: 100,
+    pp: 30,
+    description: "Raises the user's Defense.",
+    effect: { type: 'stat_change', chance: 100, target: 'self', stat: 'defense', stages: 1 },
+  },
+  quick_attack: {
+    id: 'quick_attack',
+    name: 'Quick Attack',
+    type: NORMAL,
+    category: 'physical',
+    power: 40,
+    accuracy: 100,
+    pp: 30,
+    description: 'A fast strike that is hard to dodge.',
+  },
+  headbutt: {
+    id: 'headbutt',
+    name: 'Headbutt',
+    type: NORMAL,
+    category: 'physical',
+    power: 70,
+    accuracy: 100,
+    pp: 15,
+    description: 'A head-first ram.',
+  },
+  body_slam: {
+    id: 'body_slam',
+    name: 'Body Slam',
+    type: NORMAL,
+    category: 'physical',
+    power: 85,
+    accuracy: 100,
+    pp: 15,
+    description: 'Slams into the target. May cause paralysis.',
+    effect: { type: 'paralyze', chance: 30, target: 'opponent' },
+  },
+
+  // Fire
+  ember: {
+    id: 'ember',
+    name: 'Ember',
+    type: FIRE,
+    category: 'special',
+    power: 40,
+    accuracy: 100,
+    pp: 25,
+    description: 'A small flame. May cause a burn.',
+    effect: { type: 'burn', chance: 10, target: 'opponent' },
+  },
+  flame_wheel: {
+    id: 'flame_wheel',
+    name: 'Flame Wheel',
+    type: FIRE,
+    category: 'physical',
+    power: 60,
+    accuracy: 100,
+    pp: 25,
+    description: 'A fiery rolling charge. May cause a burn.',
+    effect: { type: 'burn', chance: 10, target: 'opponent' },
+  },
+  fire_blast: {
+    id: 'fire_blast',
+    name: 'Fire Blast',
+    type: FIRE,
+    category: 'special',
+    power: 110,
+    accuracy: 85,
+    pp: 5,
+    description: 'An intense blast of fire. May cause a burn.',
+    effect: { type: 'burn', chance: 30, target: 'opponent' },
+  },
+
+  // Water
+  water_gun: {
+    id: 'water_gun',
+    name: 'Water Gun',
+    type: WATER,
+    category: 'special',
+    power: 40,
+    accuracy: 100,
+    pp: 25,
+    description: 'Squirts water at the target.',
+  },
+  bubble_beam: {
+    id: 'bubble_beam',
+    name: 'Bubble Beam',
+    type: WATER,
+    category: 'special',
+    power: 65,
+    accuracy: 100,
+    pp: 20,
+    description: "A spray of bubbles. May lower the target's Speed.",
+    effect: { type: 'stat_change', chance: 10, target: 'opponent', stat: 'speed', stages: -1 },
+  },
+  hydro_pump: {
+    id: 'hydro_pump',
+    name: 'Hydro Pump',
+    type: WATER,
+    category: 'special',
+    power: 110,
+    accuracy: 80,
+    pp: 5,
+    description: 'A huge volume of water at high pressure.',
+  },
+
+  // Grass
+  vine_whip: {
+    id: 'vine_whip',
+    name: 'Vine Whip',
+    type: GRASS,
+    category: 'physical',
+    power: 45,
+    accuracy: 100,
+    pp: 25,
+    description: 'Strikes with slender vines.',
+  },
+  razor_leaf: {
+    id: 'razor_leaf',
+    name: 'Razor Leaf',
+    type: GRASS,
+    category: 'physical',
+    power: 55,
+    accuracy: 95,
+    pp: 25,
+    description: 'Sharp leaves slice the target.',
+  },
+  poison_powder: {
+    id: 'poison_powder',
+    name: 'Poison Powder',
+    type: GRASS,
+    category: 'status',
+    power: 0,
+    accuracy: 75,
+    pp: 35,
+    description: 'A cloud of toxic dust that poisons the target.',
+    effect: { type: 'poison', chance: 100, target: 'opponent' },
+  },
+  solar_beam: {
+    id: 'solar_beam',
+    name: 'Solar Beam',
+    type: GRASS,
+    category: 'special',
+    power: 120,
+    accuracy: 90,
+    pp: 10,
+    description: 'A beam of gathered sunlight.',
+  },
+
+  // Electric
+  thunder_shock: {
+    id: 'thunder_shock',
+    name: 'Thunder Shock',
+    type: ELECTRIC,
+    category: 'special',
+    power: 40,
+    accuracy: 100,
+    pp: 30,
+    description: 'An electric jolt. May cause paralysis.',
+    effect: { type: 'paralyze', chance: 10, target: 'opponent' },
+  },
+  spark: {
+    id: 'spark',
+    name: 'Spark',
+    type: ELECTRIC,
+    category: 'physical',
+    power: 65,
+    accuracy: 100,
+    pp: 20,
+    description: 'An electrified tackle. May cause paralysis.',
+    effect: { type: 'paralyze', chance: 30, target: 'opponent' },
+  },
+  thunderbolt: {
+    id: 'thunderbolt',
+    name: 'Thunderbolt',
+    type: ELECTRIC,
+    category: 'special',
+    power: 90,
+    accuracy: 100,
+    pp: 15,
+    description: 'A strong electric blast. May cause paralysis.',
+    effect: { type: 'paralyze', chance: 10, target: 'opponent' },
+  },
+
+  // Rock
+  rock_throw: {
+    id: 'rock_throw',
+    name: 'Rock Throw',
+    type: ROCK,
+    category: 'physical',
+    power: 50,
+    accuracy: 90,
+    pp: 15,
+    description: 'Hurls small rocks at the target.',
+  },
+  rock_slide: {
+    id: 'rock_slide',
+    name: 'Rock Slide',
+    type: ROCK,
+    category: 'physical',
+    power: 75,
+    accuracy: 90,
+    pp: 10,
+    description: 'Large boulders crash down on the target.',
+  },
+  stone_edge: {
+    id: 'stone_edge',
+    name: 'Stone Edge',
+    type: ROCK,
+    category: 'physical',
+    power: 100,
+    accuracy: 80,
+    pp: 5,
+    description: 'Stabs the target with sharpened stones.',
+  },
+
+  // Wind
+  gust: {
+    id: 'gust',
+    name: 'Gust',
+    type: WIND,
+    category: 'special',
+    power: 40,
+    accuracy: 100,
+    pp: 35,
+    description: 'A gust of wind whipped up by wings.',
+  },
+  air_cutter: {
+    id: 'air_cutter',
+    name: 'Air Cutter',
+    type: WIND,
+    category: 'special',
+    power: 60,
+    accuracy: 95,
+    pp: 25,
+    description: 'Razor-like wind slashes the target.',
+  },
+  hurricane: {
+    id: 'hurricane',
+    name: 'Hurricane',
+    type: WIND,
+    category: 'special',
+    power: 110,
+    accuracy: 70,
+    pp: 10,
+    description: 'A fierce storm of wind.',
+  },
+};
+
+// Moves unlocked at levels 5 / 10 / 15 for each type
+const TYPE_MOVES: Record<ElementType, [string, string, string]> = {
+  [FIRE]: ['ember', 'flame_wheel', 'fire_blast'],
+  [WATER]: ['water_gun', 'bubble_beam', 'hydro_pump'],
+  [GRASS]: ['vine_whip', 'razor_leaf', 'solar_beam'],
+  [ELECTRIC]: ['thunder_shock', 'spark', 'thunderbolt'],
+  [ROCK]: ['rock_throw', 'rock_slide', 'stone_edge'],
+  [WIND]: ['gust', 'air_cutter', 'hurricane'],
+  [NORMAL]: ['quick_attack', 'headbutt', 'body_slam'],
+};
+
+// Species with hand-written learnsets (species_id -> entries)
+export const SPECIES_LEARNSETS: Record<number, LearnsetEntry[]> = {
+  // Flamara
+  1: [
+    { level: 1, moveId: 'tackle' },
+    { level: 3, moveId: 'growl' },
+    { level: 5, moveId: 'ember' },
+    { level: 8, moveId: 'quick_attack' },
+    { level: 10, moveId: 'flame_wheel' },
+    { level: 15, moveId: 'fire_blast' },
+  ],
+  // Aqualis
+  4: [
+    { level: 1, moveId: 'tackle' },
+    { level: 3, moveId: 'harden' },
+    { level: 5, moveId: 'water_gun' },
+    { level: 10, moveId: 'bubble_beam' },
+    { level: 12, moveId: 'headbutt' },
+    { level: 15, moveId: 'hydro_pump' },
+  ],
+  // Leafling
+  7: [
+    { level: 1, moveId: 'tackle' },
+    { level: 3, moveId: 'growl' },
+    { level: 5, moveId: 'vine_whip' },
+    { level: 8, moveId: 'poison_powder' },
+    { level: 10, moveId: 'razor_leaf' },
+    { level: 15, moveId: 'solar_beam' },
+  ],
+  // Voltik
+  10: [
+    { level: 1, moveId: 'tackle' },
+    { level: 3, moveId: 'quick_attack' },
+    { level: 5, moveId: 'thunder_shock' },
+    { level: 10, moveId: 'spark' },
+    { level: 15, moveId: 'thunderbolt' },
+  ],
+  // Rockito
+  13: [
+    { level: 1, moveId: 'tackle' },
+    { level: 3, moveId: 'harden' },
+    { level: 5, moveId: 'rock_throw' },
+    { level: 10, moveId: 'rock_slide' },
+    { level: 12, moveId: 'headbutt' },
+    { level: 15, moveId: 'stone_edge' },
+  ],
+  // Zephyra
+  16: [
+    { level: 1, moveId: 'tackle' },
+    { level: 3, moveId: 'growl' },
+    { level: 5, moveId: 'gust' },
+    { level: 8, moveId: 'quick_attack' },
+    { level: 10, moveId: 'air_cutter' },
+    { level: 15, moveId: 'hurricane' },
+  ],
+};
+
+/**
+ * Build the default learnset for a type combination:
+ * - Level 1: Tackle
+ * - Level 3: Growl
+ * - Level 5: Type move
+ * - Level 10: Secondary move (secondary type's move for dual types)
+ * - Level 15: Powerful move
+ */
+export function getTypeLearnset(primaryType: string, secondaryType: string | null = null): LearnsetEntry[] {
+  const primary = isElementType(primaryType) ? primaryType : NORMAL;
+  const [typeMove, secondaryMove, powerfulMove] = TYPE_MOVES[primary];
+  const levelTenMove = isElementType(secondaryType) && secondaryType !== primary
+    ? TYPE_MOVES[secondaryType][0]
+    : secondaryMove;
+
+  return [
+    { level: 1, moveId: BATTLE_CONFIG.DEFAULT_MOVE },
+    { level: 3, moveId: 'growl' },
+    { level: 5, moveId: typeMove },
+    { level: 10, moveId: levelTenMove },
+    { level: 15, moveId: powerfulMove },
+  ];
+}
+
+/**
+ * Get the learnset for a species (falls back to its type learnset)
+ */
+export function getLearnset(
+  speciesId: number,
+  primaryType: string,
+  secondaryType: string | null = null
+): LearnsetEntry[] {
+  return SPECIES_LEARNSETS[speciesId] ?? getTypeLearnset(primaryType, secondaryType);
+}
+
+/**
+ * Moves known at a level: the most recently learned, up to BATTLE_CONFIG.MAX_MOVES
+ */
+export function getMovesForLevel(learnset: LearnsetEntry[], level: number): Move[] {
+  return learnset
+    .filter(entry => entry.level <= level)
+    .sort((a, b) => a.level - b.level)
+    .map(entry => getMove(entry.moveId))
+    .filter((move): move is Move => move !== undefined)
+    .slice(-BATTLE_CONFIG.MAX_MOVES);
+}
+
+/**
+ * Moves a player's Siblon can use in battle
+ * Uses the server's move list when provided, otherwise its species learnset
+ */
+export function getSiblonMoves(siblon: PlayerSiblon): Move[] {
+  if (siblon.moves && siblon.moves.length > 0) {
+    const known = siblon.moves
+      .map(getMove)
+      .filter((move): move is Move => move !== undefined);
+    if (known.length > 0) {
+      return known.slice(0, BATTLE_CONFIG.MAX_MOVES);
+    }
+  }
+
+  const learnset = getLearnset(
+    siblon.species_id,
+    siblon.species_data.type_primary,
+    siblon.species_data.type_secondary
+  );
+  return getMovesForLevel(learnset, siblon.level);
+}
+
+/**
+ * Look up a move by ID
+ */
+export function getMove(moveId: string): Move | undefined {
+  return MOVE_DATABASE[moveId];
+}
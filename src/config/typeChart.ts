@@ -0,0 +1,147 @@
+/**
+ * Type Effectiveness Chart
+ *
+ * Elemental matchups for all ELEMENT_TYPES.
+ * Multipliers stack across a defender's primary and secondary type,
+ * so dual-type Siblons can take 4x or 0.25x damage.
+ */
+
+import { BATTLE_CONFIG, ELEMENT_TYPES, type ElementType } from './constants';
+import type { SpeciesData } from '../api/types';
+
+export type EffectivenessCategory = keyof typeof BATTLE_CONFIG.TYPE_EFFECTIVENESS;
+
+export interface EffectivenessResult {
+  multiplier: number; // Combined damage multiplier
+  category: EffectivenessCategory;
+  label: string; // Battle text, e.g. "super effective!"
+}
+
+const { SUPER_EFFECTIVE, NOT_VERY_EFFECTIVE, NO_EFFECT } = BATTLE_CONFIG.TYPE_EFFECTIVENESS;
+const { FIRE, WATER, GRASS, ELECTRIC, ROCK, WIND, NORMAL } = ELEMENT_TYPES;
+
+// Attacking type -> defending type -> multiplier (missing entries are 1x)
+export const TYPE_CHART: Record<ElementType, Partial<Record<ElementType, number>>> = {
+  [FIRE]: {
+    [GRASS]: SUPER_EFFECTIVE,
+    [WIND]: SUPER_EFFECTIVE,
+    [FIRE]: NOT_VERY_EFFECTIVE,
+    [WATER]: NOT_VERY_EFFECTIVE,
+    [ROCK]: NOT_VERY_EFFECTIVE,
+  },
+  [WATER]: {
+    [FIRE]: SUPER_EFFECTIVE,
+    [ROCK]: SUPER_EFFECTIVE,
+    [WATER]: NOT_VERY_EFFECTIVE,
+    [GRASS]: NOT_VERY_EFFECTIVE,
+  },
+  [GRASS]: {
+    [WATER]: SUPER_EFFECTIVE,
+    [ROCK]: SUPER_EFFECTIVE,
+    [FIRE]: NOT_VERY_EFFECTIVE,
+    [GRASS]: NOT_VERY_EFFECTIVE,
+    [WIND]: NOT_VERY_EFFECTIVE,
+  },
+  [ELECTRIC]: {
+    [WATER]: SUPER_EFFECTIVE,
+    [WIND]: SUPER_EFFECTIVE,
+    [GRASS]: NOT_VERY_EFFECTIVE,
+    [ELECTRIC]: NOT_VERY_EFFECTIVE,
+    [ROCK]: NO_EFFECT,
+  },
+  [ROCK]: {
+    [FIRE]: SUPER_EFFECTIVE,
+    [WIND]: SUPER_EFFECTIVE,
+    [GRASS]: NOT_VERY_EFFECTIVE,
+    [ROCK]: NOT_VERY_EFFECTIVE,
+  },
+  [WIND]: {
+    [GRASS]: SUPER_EFFECTIVE,
+    [ELECTRIC]: NOT_VERY_EFFECTIVE,
+    [ROCK]: NOT_VERY_EFFECTIVE,
+  },
+  [NORMAL]: {
+    [ROCK]: NOT_VERY_EFFECTIVE,
+  },
+};
+
+// Battle text for each category
+export const EFFECTIVENESS_LABELS: Record<EffectivenessCategory, string> = {
+  SUPER_EFFECTIVE: 'super effective!',
+  NORMAL: 'effective',
+  NOT_VERY_EFFECTIVE: 'not very effective...',
+  NO_EFFECT: 'no effect',
+};
+
+/**
+ * Check whether a string from the API is a known element type
+ */
+export function isElementType(type: string | null | undefined): type is ElementType {
+  return !!type && type in TYPE_CHART;
+}
+
+/**
+ * Multiplier for one attacking type against one defending type
+ * Unknown types are treated as neutral (1x)
+ */
+export function getTypeMultiplier(attackType: string, defenderType: string | null | undefined): number {
+  if (!isElementType(attackType) || !isElementType(defenderType)) {
+    return BATTLE_CONFIG.TYPE_EFFECTIVENESS.NORMAL;
+  }
+  return TYPE_CHART[attackType][defenderType] ?? BATTLE_CONFIG.TYPE_EFFECTIVENESS.NORMAL;
+}
+
+/**
+ * Get the effectiveness of an attack against a (possibly dual-typed) defender
+ * @param attackType - Type of the move being used
+ * @param defenderPrimary - Defender's primary type
+ * @param defenderSecondary - Defender's secondary type (null if single-type)
+ * @returns Combined multiplier with its category and battle label
+ */
+export function getEffectiveness(
+  attackType: string,
+  defenderPrimary: string,
+  defenderSecondary: string | null = null
+): EffectivenessResult {
+  let multiplier = getTypeMultiplier(attackType, defenderPrimary);
+
+  // Same type twice should not stack
+  if (defenderSecondary && defenderSecondary !== defenderPrimary) {
+    multiplier *= getTypeMultiplier(attackType, defenderSecondary);
+  }
+
+  const category = getEffectivenessCategory(multiplier);
+  return { multiplier, category, label: EFFECTIVENESS_LABELS[category] };
+}
+
+/**
+ * Get the effectiveness of an attack against a species
+ */
+export function getEffectivenessAgainstSpecies(attackType: string, species: SpeciesData): EffectivenessResult {
+  return getEffectiveness(attackType, species.type_primary, species.type_secondary);
+}
+
+/**
+ * Matchup preview: effectiveness of every attacking type against a defender
+ * Useful for team-building screens ("weak to", "resists")
+ */
+export function getDefensiveMatchups(
+  defenderPrimary: string,
+  defenderSecondary: string | null = null
+): Record<ElementType, EffectivenessResult> {
+  const matchups = {} as Record<ElementType, EffectivenessResult>;
+  for (const attackType of Object.values(ELEMENT_TYPES)) {
+    matchups[attackType] = getEffectiveness(attackType, defenderPrimary, defenderSecondary);
+  }
+  return matchups;
+}
+
+/**
+ * Bucket a combined multiplier into a TYPE_EFFECTIVENESS category
+ */
+export function getEffectivenessCategory(multiplier: number): EffectivenessCategory {
+  if (multiplier <= NO_EFFECT) return 'NO_EFFECT';
+  if (multiplier < BATTLE_CONFIG.TYPE_EFFECTIVENESS.NORMAL) return 'NOT_VERY_EFFECTIVE';
+  if (multiplier > BATTLE_CONFIG.TYPE_EFFECTIVENESS.NORMAL) return 'SUPER_EFFECTIVE';
+  return 'NORMAL';
+}
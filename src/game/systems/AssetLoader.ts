@@ -77,6 +77,30 @@ export class AssetLoader {
     }
   }
 
+  /**
+   * Load an image from a URL (e.g. quiz diagrams from the API)
+   * Uses smooth scaling since these are scaled to fit, not pixel art.
+   * @param name - Unique identifier for the texture
+   * @param url - Image URL (may have no file extension)
+   */
+  async loadImage(name: string, url: string): Promise<PIXI.Texture> {
+    if (this.loadedAssets.has(name)) {
+      return this.loadedAssets.get(name);
+    }
+
+    try {
+      // Without an extension Pixi can't pick a parser on its own
+      const hasExtension = /\.[a-z0-9]{2,4}$/i.test(new URL(url, window.location.href).pathname);
+      const texture: PIXI.Texture = await PIXI.Assets.load(hasExtension ? url : { src: url, parser: 'texture' });
+      texture.source.scaleMode = 'linear';
+      this.loadedAssets.set(name, texture);
+      return texture;
+    } catch (error) {
+      console.error(`Failed to load image: ${name}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Load multiple assets at once
    * @param assets - Array of asset definitions
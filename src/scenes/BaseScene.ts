@@ -3,15 +3,17 @@
  *
  * Abstract base class for all game scenes.
  * Provides common functionality for scene lifecycle management.
+ * P is the type of the parameters passed to load() (see SceneParamsMap).
  */
 
 import * as PIXI from 'pixi.js';
 import type { SceneManager } from '../systems/SceneManager';
 
-export abstract class BaseScene {
+export abstract class BaseScene<P = undefined> {
   protected app: PIXI.Application;
   protected sceneManager: SceneManager;
   public container: PIXI.Container;
+  private paused: boolean = false;
 
   constructor(app: PIXI.Application, sceneManager: SceneManager) {
     this.app = app;
@@ -22,8 +24,9 @@ export abstract class BaseScene {
   /**
    * Load scene assets and initialize
    * Called when scene is being loaded
+   * @param params - Parameters given to SceneManager.loadScene
    */
-  abstract load(): Promise<void>;
+  abstract load(params: P): Promise<void>;
 
   /**
    * Update scene logic
@@ -44,6 +47,30 @@ export abstract class BaseScene {
     this.container.destroy({ children: true });
   }
 
+  /**
+   * Called when an overlay scene is pushed on top of this one
+   * Stops pointer input reaching the scene; keyboard handlers should check isPaused().
+   */
+  pause(): void {
+    this.paused = true;
+    this.container.interactiveChildren = false;
+  }
+
+  /**
+   * Called when the overlay on top of this scene is popped
+   */
+  resume(): void {
+    this.paused = false;
+    this.container.interactiveChildren = true;
+  }
+
+  /**
+   * True while an overlay scene is on top of this one
+   */
+  protected isPaused(): boolean {
+    return this.paused;
+  }
+
   /**
    * Get screen dimensions
    */
@@ -0,0 +1,389 @@
+/**
+ * Battle Results Scene
+ *
+ * Post-battle screen shown after every battle.
+ * Features:
+ * - Victory/defeat summary with XP, coins and item drops
+ * - Applies the rewards the server granted to the player profile and party
+ *   (without them, only an estimate is shown, labelled as a preview)
+ * - Animated XP bar for each party Siblon
+ * - Catch mini-game when the server says the wild Siblon can be caught (PvE)
+ * - Replay of the finished battle
+ */
+
+import * as PIXI from 'pixi.js';
+import { BaseScene } from './BaseScene';
+import { Button } from '../ui/Button';
+import { ExperienceBar } from '../ui/ExperienceBar';
+import { useBattleStore, type BattleResult } from '../state/battleStore';
+import { usePlayerStore } from '../state/playerStore';
+import { distributeExperience, estimateBattleRewards } from '../systems/BattleRewards';
+import { BATTLE_CONFIG, GAME_CONFIG, SCENE_NAMES } from '../config/constants';
+import type { BattlePlayer, BattleRewards, PlayerSiblon, SiblonXpGain } from '../api/types';
+
+interface PartyRow {
+  bar: ExperienceBar;
+  levelText: PIXI.Text;
+  name: string;
+}
+
+export class BattleResultsScene extends BaseScene {
+  private partyRows: PartyRow[] = [];
+  private xpDelay: number = 0.5; // Seconds before the XP bars start filling
+
+  // Catch mini-game
+  private catchContainer: PIXI.Container = new PIXI.Container();
+  private needle!: PIXI.Graphics;
+  private catchText!: PIXI.Text;
+  private throwButton!: Button;
+  private needlePosition: number = 0; // 0-1 along the bar
+  private needleDirection: 1 | -1 = 1;
+  private targetStart: number = 0;
+  private isCatching: boolean = false;
+
+  private static readonly CATCH_BAR_WIDTH = 260;
+
+  async load(): Promise<void> {
+    const { width, height } = this.getScreenSize();
+
+    // Background
+    const bg = new PIXI.Graphics();
+    bg.rect(0, 0, width, height);
+    bg.fill({ color: GAME_CONFIG.COLORS.BACKGROUND });
+    this.container.addChild(bg);
+
+    const result = useBattleStore.getState().result;
+    if (!result) {
+      this.createTitle('NO RESULTS', GAME_CONFIG.COLORS.TEXT);
+      this.createButtons(null);
+      return;
+    }
+
+    const player = result.battle[result.playerSide];
+    const won = result.battle.winner_id !== null && result.battle.winner_id === player.user_id;
+    this.createTitle(won ? 'VICTORY!' : 'DEFEAT', won ? GAME_CONFIG.COLORS.SUCCESS : GAME_CONFIG.COLORS.DANGER);
+
+    // Only rewards the server granted are applied (training battles give none)
+    const rewards = won ? result.battle.rewards ?? null : null;
+    const preview = won && !rewards && result.battleType !== 'training'
+      ? estimateBattleRewards(player.level, this.getOpponent(result).level)
+      : null;
+    const partyBefore = usePlayerStore.getState().party;
+    const gains = rewards
+      ? rewards.siblon_xp_distribution ?? distributeExperience(rewards.experience_points, partyBefore, result.participantId)
+      : [];
+
+    this.createSummary(result, rewards, preview);
+    this.createParty(partyBefore, gains);
+
+    if (rewards) {
+      this.applyRewards(rewards, gains);
+      if (rewards.can_catch) {
+        this.createCatchPanel(this.getOpponent(result));
+      }
+    } else if (preview) {
+      this.refreshPlayer();
+    }
+
+    this.createButtons(result);
+  }
+
+  private applyRewards(rewards: BattleRewards, gains: SiblonXpGain[]): void {
+    const playerStore = usePlayerStore.getState();
+    playerStore.addExperience(rewards.experience_points);
+    playerStore.addCoins(rewards.coins);
+    playerStore.applySiblonExperience(gains);
+  }
+
+  /**
+   * Reload the profile and Siblons, picking up whatever the server granted
+   */
+  private refreshPlayer(): void {
+    const playerStore = usePlayerStore.getState();
+    Promise.all([playerStore.fetchProfile(), playerStore.fetchSiblons()]).catch((error) => {
+      console.error('[BattleResultsScene] Failed to refresh player after battle:', error);
+    });
+  }
+
+  private getOpponent(result: BattleResult): BattlePlayer {
+    return result.playerSide === 'player1' ? result.battle.player2 : result.battle.player1;
+  }
+
+  private createTitle(text: string, color: number): void {
+    const { width } = this.getScreenSize();
+
+    const title = new PIXI.Text({
+      text,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 32,
+        fill: color,
+      },
+    });
+    title.anchor.set(0.5, 0);
+    title.x = width / 2;
+    title.y = 24;
+    this.container.addChild(title);
+  }
+
+  private createSummary(
+    result: BattleResult,
+    rewards: BattleRewards | null,
+    preview: Pick<BattleRewards, 'experience_points' | 'coins'> | null
+  ): void {
+    const { width } = this.getScreenSize();
+
+    let summary: string;
+    if (rewards) {
+      const items = rewards.items.length > 0
+        ? `\nFound: ${rewards.items.map(item => `${item.name} x${item.quantity}`).join(', ')}`
+        : '';
+      summary = `+${rewards.experience_points} XP   +${rewards.coins} Coins${items}`;
+    } else if (preview) {
+      summary = `PREVIEW: about +${preview.experience_points} XP   +${preview.coins} Coins\n`
+        + '(estimate - the server decides your rewards)';
+    } else if (result.battleType === 'training') {
+      summary = 'Training battles are just for practice - no rewards.';
+    } else {
+      summary = 'No rewards this time. Keep training!';
+    }
+
+    const summaryText = new PIXI.Text({
+      text: summary,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: preview ? GAME_CONFIG.COLORS.WARNING : GAME_CONFIG.COLORS.TEXT,
+        align: 'center',
+        lineHeight: 24,
+      },
+    });
+    summaryText.anchor.set(0.5, 0);
+    summaryText.x = width / 2;
+    summaryText.y = 80;
+    this.container.addChild(summaryText);
+  }
+
+  /**
+   * One row per party Siblon: name, level and XP bar
+   */
+  private createParty(party: PlayerSiblon[], gains: SiblonXpGain[]): void {
+    const { width } = this.getScreenSize();
+    const columnWidth = width * 0.55 - 40;
+    const gainById = new Map(gains.map(gain => [gain.siblon_id, gain.xp_gained]));
+
+    const partyContainer = new PIXI.Container();
+    partyContainer.x = 20;
+    partyContainer.y = 150;
+    this.container.addChild(partyContainer);
+
+    party.slice(0, GAME_CONFIG.MAX_PARTY_SIZE).forEach((siblon, index) => {
+      const y = index * 50;
+      const name = siblon.nickname ?? siblon.species_name;
+      const xpGained = gainById.get(siblon.id) ?? 0;
+
+      const levelText = new PIXI.Text({
+        text: `${name} Lv.${siblon.level}`,
+        style: {
+          fontFamily: GAME_CONFIG.FONTS.PIXEL,
+          fontSize: 12,
+          fill: GAME_CONFIG.COLORS.TEXT,
+        },
+      });
+      levelText.y = y;
+      partyContainer.addChild(levelText);
+
+      const gainText = new PIXI.Text({
+        text: xpGained > 0 ? `+${xpGained} XP` : '',
+        style: {
+          fontFamily: GAME_CONFIG.FONTS.PIXEL,
+          fontSize: 10,
+          fill: GAME_CONFIG.COLORS.SECONDARY,
+        },
+      });
+      gainText.anchor.set(1, 0);
+      gainText.x = columnWidth;
+      gainText.y = y;
+      partyContainer.addChild(gainText);
+
+      const bar = new ExperienceBar({
+        width: columnWidth,
+        onLevelUp: (level) => {
+          levelText.text = `${name} Lv.${level} LEVEL UP!`;
+          levelText.style.fill = GAME_CONFIG.COLORS.WARNING;
+        },
+      });
+      bar.y = y + 20;
+      bar.setProgress(siblon.level, siblon.experience_points);
+      if (xpGained > 0) {
+        bar.animateGain(xpGained);
+      }
+      partyContainer.addChild(bar);
+
+      this.partyRows.push({ bar, levelText, name });
+    });
+  }
+
+  /**
+   * Timing mini-game: stop the needle inside the green zone
+   */
+  private createCatchPanel(wild: BattlePlayer): void {
+    const { width } = this.getScreenSize();
+    const barWidth = BattleResultsScene.CATCH_BAR_WIDTH;
+
+    this.catchContainer.x = width * 0.58;
+    this.catchContainer.y = 150;
+    this.container.addChild(this.catchContainer);
+
+    const panel = new PIXI.Graphics();
+    panel.rect(0, 0, barWidth + 40, 200);
+    panel.fill({ color: 0x2a2a3e });
+    panel.stroke({ color: GAME_CONFIG.COLORS.SUCCESS, width: 3 });
+    this.catchContainer.addChild(panel);
+
+    this.catchText = new PIXI.Text({
+      text: `${wild.siblon_name} is worn out!\nThrow when the needle is in the green.`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 10,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        lineHeight: 18,
+        wordWrap: true,
+        wordWrapWidth: barWidth,
+      },
+    });
+    this.catchText.x = 20;
+    this.catchText.y = 16;
+    this.catchContainer.addChild(this.catchText);
+
+    // Bar with a randomly placed sweet spot
+    const zoneWidth = BATTLE_CONFIG.CATCH.TARGET_ZONE;
+    this.targetStart = Math.random() * (1 - zoneWidth);
+
+    const bar = new PIXI.Graphics();
+    bar.rect(0, 0, barWidth, 20);
+    bar.fill({ color: 0x000000 });
+    bar.rect(this.targetStart * barWidth, 0, zoneWidth * barWidth, 20);
+    bar.fill({ color: GAME_CONFIG.COLORS.SUCCESS });
+    bar.rect(0, 0, barWidth, 20);
+    bar.stroke({ color: 0x8B9BB4, width: 2 });
+    bar.x = 20;
+    bar.y = 86;
+    this.catchContainer.addChild(bar);
+
+    this.needle = new PIXI.Graphics();
+    this.needle.rect(-2, -6, 4, 32);
+    this.needle.fill({ color: GAME_CONFIG.COLORS.TEXT });
+    this.needle.x = 20;
+    this.needle.y = 86;
+    this.catchContainer.addChild(this.needle);
+
+    this.throwButton = new Button({
+      text: 'THROW!',
+      width: 160,
+      height: 44,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.SUCCESS,
+      onClick: () => this.handleThrow(),
+    });
+    this.throwButton.x = 20 + (barWidth - 160) / 2;
+    this.throwButton.y = 130;
+    this.catchContainer.addChild(this.throwButton);
+
+    this.isCatching = true;
+  }
+
+  /**
+   * 1 at the middle of the green zone, falling to 0 one zone-width outside it
+   */
+  private getThrowQuality(): number {
+    const zoneWidth = BATTLE_CONFIG.CATCH.TARGET_ZONE;
+    const center = this.targetStart + zoneWidth / 2;
+    const distance = Math.abs(this.needlePosition - center);
+    return Math.max(0, 1 - distance / zoneWidth);
+  }
+
+  private async handleThrow(): Promise<void> {
+    if (!this.isCatching) return;
+
+    this.isCatching = false;
+    this.throwButton.setEnabled(false);
+    this.catchText.text = 'Throwing...';
+
+    try {
+      const response = await useBattleStore.getState().catchWildSiblon(this.getThrowQuality());
+      if (this.container.destroyed) return;
+
+      this.catchText.text = response.message;
+      this.catchText.style.fill = response.caught ? GAME_CONFIG.COLORS.SUCCESS : GAME_CONFIG.COLORS.WARNING;
+    } catch (error) {
+      console.error('[BattleResultsScene] Catch failed:', error);
+      if (this.container.destroyed) return;
+
+      this.catchText.text = error instanceof Error ? error.message : 'The catch failed.';
+      this.catchText.style.fill = GAME_CONFIG.COLORS.DANGER;
+    }
+  }
+
+  private createButtons(result: BattleResult | null): void {
+    const { width, height } = this.getScreenSize();
+
+    const continueButton = new Button({
+      text: 'CONTINUE',
+      width: 220,
+      height: 50,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.sceneManager.loadScene(SCENE_NAMES.OVERWORLD),
+    });
+    continueButton.x = width / 2 + 10;
+    continueButton.y = height - 80;
+    this.container.addChild(continueButton);
+
+    const replayButton = new Button({
+      text: 'WATCH REPLAY',
+      width: 220,
+      height: 50,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.WARNING,
+      onClick: () => {
+        if (!result) return;
+        this.sceneManager.loadScene(SCENE_NAMES.REPLAY, {
+          battleId: result.battle.battle_id,
+          battle: result.battle,
+        });
+      },
+    });
+    replayButton.x = width / 2 - 230;
+    replayButton.y = height - 80;
+    replayButton.setEnabled(result !== null);
+    this.container.addChild(replayButton);
+  }
+
+  update(deltaTime: number): void {
+    // Fill XP bars one after another
+    if (this.xpDelay > 0) {
+      this.xpDelay -= deltaTime;
+    } else {
+      this.partyRows.find(row => row.bar.isAnimating())?.bar.update(deltaTime);
+    }
+
+    // Sweep the catch needle back and forth
+    if (this.isCatching) {
+      this.needlePosition += this.needleDirection * BATTLE_CONFIG.CATCH.NEEDLE_SPEED * deltaTime;
+      if (this.needlePosition >= 1 || this.needlePosition <= 0) {
+        this.needlePosition = Math.max(0, Math.min(1, this.needlePosition));
+        this.needleDirection = this.needleDirection === 1 ? -1 : 1;
+      }
+      this.needle.x = 20 + this.needlePosition * BattleResultsScene.CATCH_BAR_WIDTH;
+    }
+  }
+
+  async unload(): Promise<void> {
+    this.partyRows = [];
+    this.isCatching = false;
+    useBattleStore.getState().clearResult();
+
+    await super.unload();
+  }
+}
@@ -0,0 +1,653 @@
+/**
+ * Battle Scene
+ *
+ * Turn-based Siblon battle against the server (or offline in training mode).
+ * Features:
+ * - Starts a battle with the lead party Siblon
+ * - HP bars for both sides
+ * - Four-move menu with PP tracking
+ * - Scrolling battle log
+ * - Forfeit and automatic move to the results screen when the battle ends
+ */
+
+import * as PIXI from 'pixi.js';
+import { BaseScene } from './BaseScene';
+import { Button } from '../ui/Button';
+import { CombatantPanel } from '../ui/CombatantPanel';
+import { usePlayerStore } from '../state/playerStore';
+import { useAuthStore } from '../state/authStore';
+import { useBattleStore } from '../state/battleStore';
+import { wsManager } from '../api/WebSocketManager';
+import { ENV } from '../config/env';
+import { MoveSet } from '../systems/MoveSet';
+import { getMove, getSiblonMoves, type Move } from '../config/moves';
+import { BATTLE_CONFIG, ELEMENT_COLORS, GAME_CONFIG, SCENE_NAMES } from '../config/constants';
+import type { BattleSceneParams } from '../systems/SceneManager';
+import type {
+  BattleLogEntry,
+  BattlePlayer,
+  BattleState,
+  BattleType,
+  PlayerSiblon,
+  StartBattleRequest,
+} from '../api/types';
+
+export class BattleScene extends BaseScene<BattleSceneParams | undefined> {
+  // Battle data
+  protected battleType: BattleType = 'pve';
+  private playerSide: 'player1' | 'player2' = 'player1';
+  private requestedSiblonId: number | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private socketListeners: Array<() => void> = [];
+  private moveSet: MoveSet = new MoveSet([]);
+
+  // UI containers
+  private headerContainer: PIXI.Container = new PIXI.Container();
+  private arenaContainer: PIXI.Container = new PIXI.Container();
+  private logContainer: PIXI.Container = new PIXI.Container();
+  private actionsContainer: PIXI.Container = new PIXI.Container();
+  private resultContainer: PIXI.Container = new PIXI.Container();
+
+  // UI elements
+  private titleText!: PIXI.Text;
+  private turnText!: PIXI.Text;
+  private opponentPanel!: CombatantPanel;
+  private playerPanel!: CombatantPanel;
+  private logText!: PIXI.Text;
+  private forfeitButton!: Button;
+  private moveButtons: Map<string, Button> = new Map();
+
+  // Timers (seconds)
+  private pollTimer: number = 0;
+  private resultTimer: number = 0;
+
+  // State flags
+  private isPolling: boolean = false;
+  private isFinished: boolean = false;
+
+  async load(params?: BattleSceneParams): Promise<void> {
+    const { width, height } = this.getScreenSize();
+    this.requestedSiblonId = params?.siblonId ?? null;
+
+    // Background
+    const bg = new PIXI.Graphics();
+    bg.rect(0, 0, width, height);
+    bg.fill({ color: GAME_CONFIG.COLORS.BACKGROUND });
+    this.container.addChild(bg);
+
+    // Setup UI containers
+    this.headerContainer.y = 20;
+    this.arenaContainer.y = 90;
+    this.logContainer.y = height - 200;
+    this.actionsContainer.x = width * 0.6 + 10;
+    this.actionsContainer.y = height - 200;
+    this.resultContainer.visible = false;
+
+    this.container.addChild(this.headerContainer);
+    this.container.addChild(this.arenaContainer);
+    this.container.addChild(this.logContainer);
+    this.container.addChild(this.actionsContainer);
+    this.container.addChild(this.resultContainer);
+
+    this.createHeader();
+    this.createArena();
+    this.createLog();
+
+    // Re-render whenever the battle store changes
+    const battleStore = useBattleStore.getState();
+    battleStore.clearBattle();
+    this.unsubscribe = useBattleStore.subscribe(() => this.renderBattle());
+    battleStore.addLogEntry({ action: 'info', player_id: null, message: 'Preparing for battle...' });
+
+    try {
+      await this.startBattle();
+    } catch (error) {
+      console.error('[BattleScene] Failed to start battle:', error);
+
+      let errorMessage = 'Failed to start battle. ';
+      if (error instanceof Error) {
+        errorMessage += error.message;
+      }
+
+      this.showErrorWithBackButton(errorMessage);
+    }
+  }
+
+  private createHeader(): void {
+    const { width } = this.getScreenSize();
+
+    // Title
+    this.titleText = new PIXI.Text({
+      text: 'BATTLE',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 24,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.titleText.x = 20;
+    this.headerContainer.addChild(this.titleText);
+
+    // Turn indicator
+    this.turnText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    this.turnText.x = 20;
+    this.turnText.y = 40;
+    this.headerContainer.addChild(this.turnText);
+
+    // Forfeit button
+    this.forfeitButton = new Button({
+      text: 'FORFEIT',
+      width: 150,
+      height: 44,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.DANGER,
+      onClick: () => this.handleForfeit(),
+    });
+    this.forfeitButton.x = width - 170;
+    this.forfeitButton.setEnabled(false);
+    this.headerContainer.addChild(this.forfeitButton);
+  }
+
+  private createArena(): void {
+    const { width, height } = this.getScreenSize();
+    const arenaHeight = height - 310;
+
+    // Opponent (top left panel, sprite top right)
+    this.opponentPanel = new CombatantPanel();
+    this.opponentPanel.x = 40;
+    this.opponentPanel.y = 10;
+    this.arenaContainer.addChild(this.opponentPanel);
+    this.arenaContainer.addChild(this.createSiblonSprite(width - 200, 80, GAME_CONFIG.COLORS.DANGER));
+
+    // Player (bottom right panel, sprite bottom left)
+    this.playerPanel = new CombatantPanel();
+    this.playerPanel.x = width - CombatantPanel.WIDTH - 40;
+    this.playerPanel.y = Math.max(arenaHeight - CombatantPanel.HEIGHT, CombatantPanel.HEIGHT + 20);
+    this.arenaContainer.addChild(this.playerPanel);
+    this.arenaContainer.addChild(
+      this.createSiblonSprite(200, Math.max(arenaHeight - 60, 180), GAME_CONFIG.COLORS.PRIMARY)
+    );
+  }
+
+  /**
+   * Placeholder Siblon sprite until species sprites are available
+   */
+  private createSiblonSprite(x: number, y: number, color: number): PIXI.Graphics {
+    const sprite = new PIXI.Graphics();
+
+    // Shadow
+    sprite.ellipse(0, 44, 56, 14);
+    sprite.fill({ color: 0x000000, alpha: 0.4 });
+
+    // Body
+    sprite.circle(0, 0, 40);
+    sprite.fill(color);
+
+    // Eyes
+    sprite.circle(-14, -8, 6);
+    sprite.fill(0xffffff);
+    sprite.circle(14, -8, 6);
+    sprite.fill(0xffffff);
+    sprite.circle(-14, -8, 3);
+    sprite.fill(0x000000);
+    sprite.circle(14, -8, 3);
+    sprite.fill(0x000000);
+
+    sprite.x = x;
+    sprite.y = y;
+    return sprite;
+  }
+
+  private createLog(): void {
+    const { width } = this.getScreenSize();
+    const logWidth = width * 0.6 - 30;
+
+    const logBg = new PIXI.Graphics();
+    logBg.rect(20, 0, logWidth, 180);
+    logBg.fill({ color: 0x2a2a3e });
+    logBg.stroke({ color: GAME_CONFIG.COLORS.PRIMARY, width: 3 });
+    this.logContainer.addChild(logBg);
+
+    this.logText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        lineHeight: 28,
+        wordWrap: true,
+        wordWrapWidth: logWidth - 30,
+      },
+    });
+    this.logText.x = 35;
+    this.logText.y = 15;
+    this.logContainer.addChild(this.logText);
+  }
+
+  /**
+   * Build the 2x2 move menu for the player's Siblon
+   * (just the default move once every move is out of PP)
+   */
+  private renderMoveMenu(): void {
+    const { width } = this.getScreenSize();
+    const areaWidth = width * 0.4 - 30;
+    const gap = 10;
+    const buttonWidth = (areaWidth - gap) / 2;
+    const buttonHeight = 85;
+
+    this.actionsContainer.removeChildren();
+    this.moveButtons.clear();
+
+    const moves: Move[] = this.moveSet.hasUsableMoves()
+      ? this.moveSet.getSlots().map(slot => slot.move)
+      : [getMove(BATTLE_CONFIG.DEFAULT_MOVE)!];
+
+    moves.forEach((move, index) => {
+      const button = new Button({
+        text: '',
+        width: buttonWidth,
+        height: buttonHeight,
+        fontSize: 11,
+        backgroundColor: ELEMENT_COLORS[move.type],
+        onClick: () => this.handleMove(move.id),
+      });
+      button.x = (index % 2) * (buttonWidth + gap);
+      button.y = Math.floor(index / 2) * (buttonHeight + gap);
+      button.setEnabled(false);
+
+      this.moveButtons.set(move.id, button);
+      this.actionsContainer.addChild(button);
+    });
+
+    this.updateMoveButtons(false);
+  }
+
+  /**
+   * Refresh move labels (PP) and enabled state
+   */
+  private updateMoveButtons(canSelect: boolean): void {
+    if (!this.moveSet.hasUsableMoves()) {
+      const fallback = this.moveButtons.get(BATTLE_CONFIG.DEFAULT_MOVE);
+      fallback?.setText(`${getMove(BATTLE_CONFIG.DEFAULT_MOVE)!.name.toUpperCase()}\nNo PP needed`);
+      fallback?.setEnabled(canSelect);
+      return;
+    }
+
+    this.moveSet.getSlots().forEach((slot) => {
+      const button = this.moveButtons.get(slot.move.id);
+      if (!button) return;
+
+      button.setText(`${slot.move.name.toUpperCase()}\n${slot.move.type} PP ${slot.currentPP}/${slot.maxPP}`);
+      button.setEnabled(canSelect && slot.currentPP > 0);
+    });
+  }
+
+  private async startBattle(): Promise<void> {
+    const siblon = await this.pickSiblon();
+
+    this.moveSet = new MoveSet(getSiblonMoves(siblon));
+    this.renderMoveMenu();
+
+    await this.beginBattle(siblon);
+
+    const battleId = useBattleStore.getState().battle?.battle_id;
+    if (ENV.DEBUG) {
+      console.log('[BattleScene] Battle started, ID:', battleId);
+    }
+
+    // Training battles run locally, so there is nothing to listen for
+    if (battleId && this.battleType !== 'training') {
+      this.connectRealtime(battleId);
+    }
+  }
+
+  /**
+   * Siblon to send out (the one passed in the scene params, else the lead party Siblon)
+   */
+  protected async pickSiblon(): Promise<PlayerSiblon> {
+    const playerStore = usePlayerStore.getState();
+
+    // Make sure we know the party before picking a Siblon
+    if (playerStore.party.length === 0) {
+      await playerStore.fetchSiblons();
+    }
+
+    if (this.requestedSiblonId !== null) {
+      const { party, collection } = usePlayerStore.getState();
+      const siblon = [...party, ...collection].find(candidate => candidate.id === this.requestedSiblonId);
+      if (!siblon) {
+        throw new Error('The Siblon you picked is no longer in your collection.');
+      }
+      return siblon;
+    }
+
+    const leadSiblon = usePlayerStore.getState().party[0];
+    if (!leadSiblon) {
+      throw new Error('You need a Siblon in your party to battle.');
+    }
+    return leadSiblon;
+  }
+
+  /**
+   * Start the battle through the battle store
+   * @param siblon - Siblon picked by pickSiblon
+   */
+  protected async beginBattle(siblon: PlayerSiblon): Promise<void> {
+    const request: StartBattleRequest = {
+      player_siblon_id: siblon.id,
+      battle_type: this.battleType,
+    };
+
+    await useBattleStore.getState().startBattle(request);
+  }
+
+  /**
+   * Listen for live battle events from Reverb (polling stays on as a fallback)
+   */
+  private connectRealtime(battleId: string): void {
+    if (!ENV.REVERB_KEY) return;
+
+    const refreshOnEvent = (event: { battle_id: string }) => {
+      if (event.battle_id === battleId) {
+        this.refreshBattleState();
+      }
+    };
+
+    this.socketListeners = [
+      wsManager.on('turnChanged', refreshOnEvent),
+      wsManager.on('damageDealt', refreshOnEvent),
+      wsManager.on('battleEnded', refreshOnEvent),
+    ];
+
+    wsManager.subscribeToBattle(battleId).catch((error) => {
+      console.warn('[BattleScene] Live updates unavailable, polling only:', error);
+    });
+  }
+
+  private async refreshBattleState(): Promise<void> {
+    if (this.isPolling) return;
+
+    this.isPolling = true;
+    try {
+      await useBattleStore.getState().refreshBattle();
+    } catch (error) {
+      console.error('[BattleScene] Failed to refresh battle state:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Sync the UI with the battle store
+   */
+  private renderBattle(): void {
+    // Scene may have been left while a request was in flight
+    if (this.container.destroyed) return;
+
+    const { battle: state, log, isSubmitting } = useBattleStore.getState();
+
+    this.setLogMessages(log);
+    if (!state) return;
+
+    this.playerSide = this.resolvePlayerSide(state);
+
+    const player = this.getPlayer(state);
+    const opponent = this.getOpponent(state);
+
+    this.playerPanel.setCombatant(player);
+    this.opponentPanel.setCombatant(opponent);
+
+    const isMyTurn = state.turn_player_id === player.user_id;
+
+    this.titleText.text = `BATTLE - Turn ${state.current_turn}`;
+    this.turnText.text = isMyTurn ? 'Your turn!' : `Waiting for ${opponent.username}...`;
+
+    this.updateMoveButtons(state.status === 'active' && isMyTurn && !isSubmitting);
+    this.forfeitButton.setEnabled(state.status === 'active' && !isSubmitting);
+
+    if (state.status !== 'active') {
+      this.finishBattle(state);
+    }
+  }
+
+  /**
+   * Work out which side of the battle belongs to the logged-in player
+   */
+  private resolvePlayerSide(state: BattleState): 'player1' | 'player2' {
+    const userId = usePlayerStore.getState().profile?.user_id ?? useAuthStore.getState().user?.id;
+    if (userId !== undefined && state.player2.user_id === userId) {
+      return 'player2';
+    }
+    return 'player1';
+  }
+
+  private getPlayer(state: BattleState): BattlePlayer {
+    return this.playerSide === 'player1' ? state.player1 : state.player2;
+  }
+
+  private getOpponent(state: BattleState): BattlePlayer {
+    return this.playerSide === 'player1' ? state.player2 : state.player1;
+  }
+
+  private setLogMessages(entries: BattleLogEntry[]): void {
+    const visible = entries.slice(-BATTLE_CONFIG.LOG_VISIBLE_ENTRIES);
+    this.logText.text = visible.map(entry => entry.message).join('\n');
+  }
+
+  private async handleMove(moveId: string): Promise<void> {
+    // With no PP left anywhere, the default move is all that's left
+    const isFallback = !this.moveSet.hasUsableMoves();
+    const canUse = isFallback ? moveId === BATTLE_CONFIG.DEFAULT_MOVE : this.moveSet.canUse(moveId);
+    if (this.isFinished || !canUse) return;
+
+    try {
+      await useBattleStore.getState().submitMove(moveId);
+      if (!isFallback) {
+        this.moveSet.use(moveId);
+        if (!this.moveSet.hasUsableMoves()) {
+          this.renderMoveMenu();
+        }
+      }
+      this.renderBattle();
+    } catch (error) {
+      console.error('[BattleScene] Failed to submit move:', error);
+      useBattleStore.getState().addLogEntry({
+        action: 'error',
+        player_id: null,
+        message: 'Your move could not be sent. Try again!',
+      });
+    }
+  }
+
+  private handleForfeit(): void {
+    if (this.isFinished) return;
+
+    this.sceneManager.pushScene(SCENE_NAMES.DIALOG, {
+      title: 'FORFEIT?',
+      message: 'Are you sure you want to forfeit? Your opponent will win.',
+      buttons: [
+        { text: 'CANCEL' },
+        { text: 'FORFEIT', color: GAME_CONFIG.COLORS.DANGER, onSelect: () => this.forfeit() },
+      ],
+    });
+  }
+
+  private async forfeit(): Promise<void> {
+    // The battle may have ended while the dialog was open
+    if (this.isFinished || this.container.destroyed) return;
+
+    this.forfeitButton.setText('...');
+
+    try {
+      await useBattleStore.getState().forfeitBattle();
+    } catch (error) {
+      console.error('[BattleScene] Failed to forfeit battle:', error);
+      this.forfeitButton.setText('FORFEIT');
+    }
+  }
+
+  private finishBattle(state: BattleState): void {
+    if (this.isFinished) return;
+
+    this.isFinished = true;
+    this.resultTimer = BATTLE_CONFIG.RESULT_DISPLAY_TIME;
+    this.forfeitButton.setEnabled(false);
+    this.actionsContainer.visible = false;
+
+    const player = this.getPlayer(state);
+    const won = state.winner_id !== null && state.winner_id === player.user_id;
+
+    useBattleStore.getState().setResult({
+      battle: state,
+      battleType: this.battleType,
+      playerSide: this.playerSide,
+      participantId: player.siblon_id,
+    });
+
+    this.showResult(won ? 'VICTORY!' : 'DEFEAT', won ? GAME_CONFIG.COLORS.SUCCESS : GAME_CONFIG.COLORS.DANGER);
+  }
+
+  private showResult(message: string, color: number): void {
+    const { width, height } = this.getScreenSize();
+
+    this.resultContainer.removeChildren();
+    this.resultContainer.visible = true;
+
+    const overlay = new PIXI.Graphics();
+    overlay.rect(0, height / 2 - 60, width, 120);
+    overlay.fill({ color: 0x000000, alpha: 0.8 });
+    this.resultContainer.addChild(overlay);
+
+    const resultText = new PIXI.Text({
+      text: message,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 36,
+        fill: color,
+      },
+    });
+    resultText.anchor.set(0.5);
+    resultText.x = width / 2;
+    resultText.y = height / 2 - 10;
+    this.resultContainer.addChild(resultText);
+
+    const returningText = new PIXI.Text({
+      text: 'Tallying results...',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    returningText.anchor.set(0.5);
+    returningText.x = width / 2;
+    returningText.y = height / 2 + 35;
+    this.resultContainer.addChild(returningText);
+  }
+
+  private showErrorWithBackButton(message: string): void {
+    const { width, height } = this.getScreenSize();
+
+    this.arenaContainer.visible = false;
+    this.logContainer.visible = false;
+    this.actionsContainer.visible = false;
+    this.forfeitButton.visible = false;
+
+    this.resultContainer.removeChildren();
+    this.resultContainer.visible = true;
+
+    const errorPanel = new PIXI.Graphics();
+    errorPanel.rect(50, height / 2 - 150, width - 100, 300);
+    errorPanel.fill({ color: 0x2a2a3e });
+    errorPanel.stroke({ color: GAME_CONFIG.COLORS.DANGER, width: 3 });
+    this.resultContainer.addChild(errorPanel);
+
+    const errorTitle = new PIXI.Text({
+      text: 'ERROR',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 24,
+        fill: GAME_CONFIG.COLORS.DANGER,
+      },
+    });
+    errorTitle.x = (width - errorTitle.width) / 2;
+    errorTitle.y = height / 2 - 120;
+    this.resultContainer.addChild(errorTitle);
+
+    const errorMessage = new PIXI.Text({
+      text: message,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        wordWrap: true,
+        wordWrapWidth: width - 140,
+      },
+    });
+    errorMessage.x = (width - errorMessage.width) / 2;
+    errorMessage.y = height / 2 - 60;
+    this.resultContainer.addChild(errorMessage);
+
+    const backButton = new Button({
+      text: 'BACK TO OVERWORLD',
+      width: 300,
+      height: 50,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.returnToOverworld(),
+    });
+    backButton.x = (width - 300) / 2;
+    backButton.y = height / 2 + 60;
+    this.resultContainer.addChild(backButton);
+  }
+
+  private returnToOverworld(): void {
+    this.sceneManager.loadScene(SCENE_NAMES.OVERWORLD);
+  }
+
+  update(deltaTime: number): void {
+    if (this.isFinished) {
+      // Count down before leaving the battle
+      if (this.resultTimer > 0) {
+        this.resultTimer -= deltaTime;
+        if (this.resultTimer <= 0) {
+          this.sceneManager.loadScene(SCENE_NAMES.BATTLE_RESULTS);
+        }
+      }
+      return;
+    }
+
+    // Poll the server for the authoritative battle state
+    if (useBattleStore.getState().battle) {
+      this.pollTimer += deltaTime;
+      if (this.pollTimer >= BATTLE_CONFIG.STATE_POLL_INTERVAL) {
+        this.pollTimer = 0;
+        this.refreshBattleState();
+      }
+    }
+  }
+
+  async unload(): Promise<void> {
+    // Stop listening and clear the finished battle
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    this.socketListeners.forEach((removeListener) => removeListener());
+    this.socketListeners = [];
+
+    const battleId = useBattleStore.getState().battle?.battle_id;
+    if (battleId && ENV.REVERB_KEY && this.battleType !== 'training') {
+      wsManager.unsubscribeFromBattle(battleId);
+    }
+    useBattleStore.getState().clearBattle();
+
+    await super.unload();
+  }
+}
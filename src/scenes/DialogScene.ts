@@ -0,0 +1,112 @@
+/**
+ * Dialog Scene (overlay)
+ *
+ * Message box pushed on top of the current scene.
+ * Used for NPC dialog and confirmations (forfeit, leaving a quiz, ...).
+ * Escape closes the dialog without choosing a button (unless dismissible is false).
+ */
+
+import * as PIXI from 'pixi.js';
+import { OverlayScene } from './OverlayScene';
+import { Button } from '../ui/Button';
+import { GAME_CONFIG, KEYBINDS } from '../config/constants';
+import type { DialogButton, DialogSceneParams } from '../systems/SceneManager';
+
+const PANEL_WIDTH = 560;
+const BUTTON_WIDTH = 160;
+const BUTTON_GAP = 20;
+
+export class DialogScene extends OverlayScene<DialogSceneParams> {
+  private isClosing: boolean = false;
+  private isDismissible: boolean = true;
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (this.isPaused() || !this.isDismissible) return;
+
+    if ((KEYBINDS.CANCEL as readonly string[]).includes(event.code)) {
+      this.select(null);
+    }
+  };
+
+  async load(params: DialogSceneParams): Promise<void> {
+    this.isDismissible = params.dismissible ?? true;
+    this.createBackdrop();
+
+    const textWidth = PANEL_WIDTH - 40;
+
+    const title = new PIXI.Text({
+      text: params.title ?? '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 18,
+        fill: GAME_CONFIG.COLORS.WARNING,
+      },
+    });
+
+    const message = new PIXI.Text({
+      text: params.message,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        lineHeight: 22,
+        wordWrap: true,
+        wordWrapWidth: textWidth,
+      },
+    });
+
+    const titleHeight = params.title ? title.height + 16 : 0;
+    const panelHeight = 20 + titleHeight + message.height + 30 + 50 + 20;
+    const panel = this.createPanel(PANEL_WIDTH, panelHeight);
+
+    if (params.title) {
+      title.x = 20;
+      title.y = 20;
+      panel.addChild(title);
+    }
+
+    message.x = 20;
+    message.y = 20 + titleHeight;
+    panel.addChild(message);
+
+    // Buttons, centered along the bottom of the panel
+    const buttons = params.buttons ?? [{ text: 'OK' }];
+    const rowWidth = buttons.length * BUTTON_WIDTH + (buttons.length - 1) * BUTTON_GAP;
+
+    buttons.forEach((dialogButton, index) => {
+      const button = new Button({
+        text: dialogButton.text,
+        width: BUTTON_WIDTH,
+        height: 50,
+        fontSize: 14,
+        backgroundColor: dialogButton.color ?? GAME_CONFIG.COLORS.PRIMARY,
+        onClick: () => this.select(dialogButton),
+      });
+      button.x = (PANEL_WIDTH - rowWidth) / 2 + index * (BUTTON_WIDTH + BUTTON_GAP);
+      button.y = panelHeight - 70;
+      panel.addChild(button);
+    });
+
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Close the dialog, then run the chosen button's action
+   */
+  private async select(dialogButton: DialogButton | null): Promise<void> {
+    if (this.isClosing) return;
+    this.isClosing = true;
+
+    await this.close();
+    dialogButton?.onSelect?.();
+  }
+
+  update(): void {
+    // Static dialog
+  }
+
+  async unload(): Promise<void> {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    await super.unload();
+  }
+}
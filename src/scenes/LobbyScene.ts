@@ -0,0 +1,390 @@
+/**
+ * Lobby Scene
+ *
+ * PvP matchmaking over the Reverb presence channel.
+ * Features:
+ * - Lists classmates who are online
+ * - Pick which party Siblon to battle with
+ * - Send, accept, decline and cancel challenges (with timeouts)
+ * - Moves both players into a PvP battle once a challenge is accepted
+ */
+
+import * as PIXI from 'pixi.js';
+import { BaseScene } from './BaseScene';
+import { Button } from '../ui/Button';
+import { useLobbyStore } from '../state/lobbyStore';
+import { usePlayerStore } from '../state/playerStore';
+import { ENV } from '../config/env';
+import { GAME_CONFIG, LOBBY_CONFIG, SCENE_NAMES } from '../config/constants';
+
+export class LobbyScene extends BaseScene {
+  private unsubscribe: (() => void) | null = null;
+  private countdownTimer: number = 0;
+  private isStartingBattle: boolean = false;
+
+  // UI elements
+  private statusText!: PIXI.Text;
+  private siblonText!: PIXI.Text;
+  private changeSiblonButton!: Button;
+  private noticeText!: PIXI.Text;
+  private membersContainer: PIXI.Container = new PIXI.Container();
+  private challengesContainer: PIXI.Container = new PIXI.Container();
+
+  async load(): Promise<void> {
+    const { width, height } = this.getScreenSize();
+
+    // Background
+    const bg = new PIXI.Graphics();
+    bg.rect(0, 0, width, height);
+    bg.fill({ color: GAME_CONFIG.COLORS.BACKGROUND });
+    this.container.addChild(bg);
+
+    this.createHeader();
+    this.createSiblonPicker();
+    this.createColumns();
+
+    // Notices (declines, timeouts, ...)
+    this.noticeText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.WARNING,
+        wordWrap: true,
+        wordWrapWidth: width - 40,
+      },
+    });
+    this.noticeText.x = 20;
+    this.noticeText.y = height - 40;
+    this.container.addChild(this.noticeText);
+
+    if (!ENV.REVERB_KEY) {
+      this.statusText.text = 'The PvP lobby needs a live server connection (Reverb is not configured).';
+      this.changeSiblonButton.setEnabled(false);
+      return;
+    }
+
+    this.unsubscribe = useLobbyStore.subscribe(() => this.renderLobby());
+    this.statusText.text = 'Connecting to the lobby...';
+
+    try {
+      await useLobbyStore.getState().joinLobby();
+    } catch (error) {
+      console.error('[LobbyScene] Failed to join lobby:', error);
+      if (!this.container.destroyed) {
+        this.statusText.text = error instanceof Error
+          ? `Could not join the lobby: ${error.message}`
+          : 'Could not join the lobby.';
+      }
+      return;
+    }
+
+    this.renderLobby();
+  }
+
+  private createHeader(): void {
+    const { width } = this.getScreenSize();
+
+    const title = new PIXI.Text({
+      text: 'PVP LOBBY',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 24,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    title.x = 20;
+    title.y = 20;
+    this.container.addChild(title);
+
+    this.statusText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+        wordWrap: true,
+        wordWrapWidth: width - 220,
+      },
+    });
+    this.statusText.x = 20;
+    this.statusText.y = 60;
+    this.container.addChild(this.statusText);
+
+    const backButton = new Button({
+      text: 'BACK',
+      width: 150,
+      height: 44,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.sceneManager.loadScene(SCENE_NAMES.OVERWORLD),
+    });
+    backButton.x = width - 170;
+    backButton.y = 20;
+    this.container.addChild(backButton);
+  }
+
+  private createSiblonPicker(): void {
+    this.siblonText = new PIXI.Text({
+      text: 'Your Siblon: -',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.siblonText.x = 20;
+    this.siblonText.y = 105;
+    this.container.addChild(this.siblonText);
+
+    this.changeSiblonButton = new Button({
+      text: 'CHANGE',
+      width: 120,
+      height: 36,
+      fontSize: 12,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.cycleSiblon(),
+    });
+    this.changeSiblonButton.y = 96;
+    this.container.addChild(this.changeSiblonButton);
+  }
+
+  private createColumns(): void {
+    const { width } = this.getScreenSize();
+
+    const membersTitle = new PIXI.Text({
+      text: 'ONLINE CLASSMATES',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    membersTitle.x = 20;
+    membersTitle.y = 160;
+    this.container.addChild(membersTitle);
+
+    this.membersContainer.x = 20;
+    this.membersContainer.y = 190;
+    this.container.addChild(this.membersContainer);
+
+    const challengesTitle = new PIXI.Text({
+      text: 'CHALLENGES',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    challengesTitle.x = width * 0.55;
+    challengesTitle.y = 160;
+    this.container.addChild(challengesTitle);
+
+    this.challengesContainer.x = width * 0.55;
+    this.challengesContainer.y = 190;
+    this.container.addChild(this.challengesContainer);
+  }
+
+  /**
+   * Switch to the next Siblon in the party
+   */
+  private cycleSiblon(): void {
+    const { party } = usePlayerStore.getState();
+    if (party.length === 0) return;
+
+    const lobby = useLobbyStore.getState();
+    const index = party.findIndex(siblon => siblon.id === lobby.selectedSiblonId);
+    lobby.selectSiblon(party[(index + 1) % party.length].id);
+  }
+
+  /**
+   * Sync the UI with the lobby store
+   */
+  private renderLobby(): void {
+    if (this.container.destroyed) return;
+
+    const lobby = useLobbyStore.getState();
+
+    // Challenge accepted on both sides - off to battle
+    if (lobby.match && !this.isStartingBattle) {
+      this.isStartingBattle = true;
+      this.sceneManager.loadScene(SCENE_NAMES.PVP_BATTLE);
+      return;
+    }
+
+    const onlineCount = lobby.members.length;
+    this.statusText.text = lobby.isJoined
+      ? `${onlineCount} classmate${onlineCount === 1 ? '' : 's'} online`
+      : lobby.error ?? 'Connecting to the lobby...';
+    this.noticeText.text = lobby.notice ?? '';
+
+    const siblon = usePlayerStore.getState().party.find(candidate => candidate.id === lobby.selectedSiblonId);
+    this.siblonText.text = siblon
+      ? `Your Siblon: ${siblon.nickname ?? siblon.species_name} Lv.${siblon.level}`
+      : 'Your Siblon: none in party';
+    this.changeSiblonButton.x = this.siblonText.x + this.siblonText.width + 20;
+
+    const isBusy = lobby.outgoingChallenge !== null || lobby.acceptedChallenge !== null;
+    this.changeSiblonButton.setEnabled(!isBusy);
+
+    this.renderMembers(isBusy);
+    this.renderChallenges();
+  }
+
+  private renderMembers(isBusy: boolean): void {
+    const { width } = this.getScreenSize();
+    const { members, outgoingChallenge, isJoined } = useLobbyStore.getState();
+    const columnWidth = width * 0.55 - 40;
+
+    this.membersContainer.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    if (isJoined && members.length === 0) {
+      this.membersContainer.addChild(this.createLabel('Nobody else is here yet...', 0, 0, columnWidth));
+      return;
+    }
+
+    members.slice(0, LOBBY_CONFIG.VISIBLE_MEMBERS).forEach((member, index) => {
+      const y = index * 52;
+      const level = member.info.level !== undefined ? ` Lv.${member.info.level}` : '';
+      this.membersContainer.addChild(this.createLabel(`${member.info.name}${level}`, 0, y + 12, columnWidth - 150));
+
+      const isChallenged = outgoingChallenge?.to_user_id === member.id;
+      const challengeButton = new Button({
+        text: isChallenged ? 'WAITING' : 'CHALLENGE',
+        width: 140,
+        height: 40,
+        fontSize: 11,
+        backgroundColor: GAME_CONFIG.COLORS.DANGER,
+        onClick: () => useLobbyStore.getState().sendChallenge(member.id),
+      });
+      challengeButton.x = columnWidth - 140;
+      challengeButton.y = y;
+      challengeButton.setEnabled(!isBusy);
+      this.membersContainer.addChild(challengeButton);
+    });
+
+    if (members.length > LOBBY_CONFIG.VISIBLE_MEMBERS) {
+      const more = members.length - LOBBY_CONFIG.VISIBLE_MEMBERS;
+      this.membersContainer.addChild(
+        this.createLabel(`...and ${more} more`, 0, LOBBY_CONFIG.VISIBLE_MEMBERS * 52, columnWidth)
+      );
+    }
+  }
+
+  private renderChallenges(): void {
+    const { width } = this.getScreenSize();
+    const { outgoingChallenge, incomingChallenges, acceptedChallenge, members } = useLobbyStore.getState();
+    const columnWidth = width * 0.45 - 20;
+    const now = Date.now();
+    let y = 0;
+
+    this.challengesContainer.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    if (outgoingChallenge) {
+      const name = members.find(member => member.id === outgoingChallenge.to_user_id)?.info.name ?? 'opponent';
+      const seconds = this.secondsLeft(Date.parse(outgoingChallenge.expires_at), now);
+      this.challengesContainer.addChild(this.createLabel(`Waiting for ${name}... (${seconds}s)`, 0, y, columnWidth));
+
+      const cancelButton = new Button({
+        text: 'CANCEL',
+        width: 120,
+        height: 36,
+        fontSize: 11,
+        backgroundColor: GAME_CONFIG.COLORS.DANGER,
+        onClick: () => useLobbyStore.getState().cancelChallenge(),
+      });
+      cancelButton.y = y + 30;
+      this.challengesContainer.addChild(cancelButton);
+      y += 86;
+    }
+
+    if (acceptedChallenge) {
+      const seconds = this.secondsLeft(acceptedChallenge.startDeadline, now);
+      this.challengesContainer.addChild(
+        this.createLabel(`Starting battle with ${acceptedChallenge.challenge.from_name}... (${seconds}s)`, 0, y, columnWidth)
+      );
+      y += 56;
+    }
+
+    incomingChallenges.forEach(challenge => {
+      const seconds = this.secondsLeft(Date.parse(challenge.expires_at), now);
+      this.challengesContainer.addChild(
+        this.createLabel(`${challenge.from_name} challenges you! (${seconds}s)`, 0, y, columnWidth)
+      );
+
+      const acceptButton = new Button({
+        text: 'ACCEPT',
+        width: 120,
+        height: 36,
+        fontSize: 11,
+        backgroundColor: GAME_CONFIG.COLORS.SUCCESS,
+        onClick: () => useLobbyStore.getState().acceptChallenge(challenge.challenge_id),
+      });
+      acceptButton.y = y + 30;
+      this.challengesContainer.addChild(acceptButton);
+
+      const declineButton = new Button({
+        text: 'DECLINE',
+        width: 120,
+        height: 36,
+        fontSize: 11,
+        backgroundColor: GAME_CONFIG.COLORS.DANGER,
+        onClick: () => useLobbyStore.getState().declineChallenge(challenge.challenge_id),
+      });
+      declineButton.x = 130;
+      declineButton.y = y + 30;
+      this.challengesContainer.addChild(declineButton);
+      y += 86;
+    });
+
+    if (y === 0) {
+      this.challengesContainer.addChild(this.createLabel('No challenges yet.', 0, 0, columnWidth));
+    }
+  }
+
+  private createLabel(text: string, x: number, y: number, wrapWidth: number): PIXI.Text {
+    const label = new PIXI.Text({
+      text,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        wordWrap: true,
+        wordWrapWidth: wrapWidth,
+      },
+    });
+    label.x = x;
+    label.y = y;
+    return label;
+  }
+
+  private secondsLeft(deadline: number, now: number): number {
+    return Math.max(0, Math.ceil((deadline - now) / 1000));
+  }
+
+  update(deltaTime: number): void {
+    if (!useLobbyStore.getState().isJoined) return;
+
+    // Expire challenges and refresh countdowns once a second
+    this.countdownTimer += deltaTime;
+    if (this.countdownTimer >= 1) {
+      this.countdownTimer = 0;
+      useLobbyStore.getState().expireChallenges();
+      this.renderLobby();
+    }
+  }
+
+  async unload(): Promise<void> {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    // Stay in the lobby while the PvP battle is being set up
+    if (!useLobbyStore.getState().match) {
+      useLobbyStore.getState().leaveLobby();
+    }
+
+    await super.unload();
+  }
+}
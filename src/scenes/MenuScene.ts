@@ -2,7 +2,8 @@
  * Menu Scene
  *
  * Main menu with login/register functionality.
- * Entry point for unauthenticated users.
+ * Entry point for unauthenticated users, and where an expired session
+ * logs back in (resuming a saved quiz attempt).
  */
 
 import * as PIXI from 'pixi.js';
@@ -11,6 +12,8 @@ import { GAME_CONFIG, SCENE_NAMES } from '../config/constants';
 import { LoginForm } from '../ui/LoginForm';
 import { RegisterForm } from '../ui/RegisterForm';
 import { usePlayerStore } from '../state/playerStore';
+import { useAuthStore } from '../state/authStore';
+import { useQuizStore } from '../state/quizStore';
 
 type ViewState = 'login' | 'register';
 
@@ -21,6 +24,7 @@ export class MenuScene extends BaseScene {
   private registerForm!: RegisterForm;
   private currentView: ViewState = 'login';
   private formContainer!: PIXI.Container;
+  private isSessionExpired: boolean = false; // Logging back in after a 401
 
   async load(): Promise<void> {
     console.log('[MenuScene] Loading...');
@@ -92,6 +96,13 @@ export class MenuScene extends BaseScene {
     // Show login form by default
     this.showLogin();
 
+    // Back here because the session expired
+    const { sessionExpired, user } = useAuthStore.getState();
+    this.isSessionExpired = sessionExpired;
+    if (sessionExpired) {
+      this.loginForm.showSessionExpired(user?.email ?? null);
+    }
+
     console.log('[MenuScene] Loaded');
   }
 
@@ -145,6 +156,13 @@ export class MenuScene extends BaseScene {
       console.error('[MenuScene] Failed to fetch player data:', error);
     }
 
+    // Back from an expired session - carry on with the quiz that was in progress
+    const attempt = this.isSessionExpired ? useQuizStore.getState().getResumableAttempt() : null;
+    if (attempt) {
+      await this.sceneManager.loadScene(SCENE_NAMES.QUIZ, { quizId: attempt.quizId });
+      return;
+    }
+
     // Transition to OverworldScene
     await this.sceneManager.loadScene(SCENE_NAMES.OVERWORLD);
   }
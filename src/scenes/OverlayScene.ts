@@ -0,0 +1,54 @@
+/**
+ * Overlay Scene
+ *
+ * Base class for scenes pushed on top of another scene with
+ * SceneManager.pushScene (pause menu, party screen, dialogs).
+ * Dims the paused scene underneath and draws a centered panel.
+ */
+
+import * as PIXI from 'pixi.js';
+import { BaseScene } from './BaseScene';
+import { GAME_CONFIG } from '../config/constants';
+
+export abstract class OverlayScene<P = undefined> extends BaseScene<P> {
+  /**
+   * Dim the screen and swallow clicks meant for the scene underneath
+   */
+  protected createBackdrop(): void {
+    const { width, height } = this.getScreenSize();
+
+    const backdrop = new PIXI.Graphics();
+    backdrop.rect(0, 0, width, height);
+    backdrop.fill({ color: 0x000000, alpha: 0.6 });
+    backdrop.eventMode = 'static';
+    this.container.addChild(backdrop);
+  }
+
+  /**
+   * Centered panel to lay the overlay out in
+   * @returns Container positioned at the panel's top-left corner
+   */
+  protected createPanel(panelWidth: number, panelHeight: number): PIXI.Container {
+    const { width, height } = this.getScreenSize();
+
+    const panel = new PIXI.Container();
+    panel.x = Math.round((width - panelWidth) / 2);
+    panel.y = Math.round((height - panelHeight) / 2);
+
+    const background = new PIXI.Graphics();
+    background.rect(0, 0, panelWidth, panelHeight);
+    background.fill({ color: 0x2a2a3e });
+    background.stroke({ color: GAME_CONFIG.COLORS.PRIMARY, width: 3 });
+    panel.addChild(background);
+
+    this.container.addChild(panel);
+    return panel;
+  }
+
+  /**
+   * Close this overlay and resume the scene underneath
+   */
+  protected close(): Promise<void> {
+    return this.sceneManager.popScene();
+  }
+}
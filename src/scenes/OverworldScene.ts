@@ -3,7 +3,8 @@ import { BaseScene } from './BaseScene';
 import { AssetLoader } from '../game/systems/AssetLoader';
 import { AnimatedPlayer } from '../game/entities/AnimatedPlayer';
 import { usePlayerStore } from '../state/playerStore';
-import { useAuthStore } from '../state/authStore';
+import { useQuizStore } from '../state/quizStore';
+import { useSyncQueueStore } from '../state/syncQueueStore';
 import { GAME_CONFIG, KEYBINDS, SCENE_NAMES } from '../config/constants';
 import { Button } from '../ui/Button';
 
@@ -11,6 +12,8 @@ export class OverworldScene extends BaseScene {
   private world!: PIXI.Container;
   private player!: AnimatedPlayer;
   private hud!: PIXI.Container;
+  private syncBadge!: PIXI.Container; // Answers waiting to be submitted (offline)
+  private unsubscribeSyncQueue: (() => void) | null = null;
   private camera!: PIXI.Container;
 
   // World configuration
@@ -37,6 +40,9 @@ export class OverworldScene extends BaseScene {
   private interactables: Array<{ sprite: PIXI.Container | PIXI.Graphics; type: string; bounds: PIXI.Rectangle }> = [];
   private nearestInteractable: { sprite: PIXI.Container | PIXI.Graphics; type: string } | null = null;
 
+  // Unfinished quiz prompt (overlays can't be pushed while the scene is loading)
+  private hasCheckedQuizResume = false;
+
   async load(): Promise<void> {
     console.log('[OverworldScene] Loading...');
 
@@ -153,6 +159,12 @@ export class OverworldScene extends BaseScene {
     // Add quiz zone portal
     this.createPortal(centerX + 200, centerY - 300, 'quiz', 0x4444ff);
 
+    // Add Training Grounds portal (offline battles against a dummy)
+    this.createPortal(centerX, centerY - 300, 'training', 0xffaa44);
+
+    // Add PvP lobby portal
+    this.createPortal(centerX - 400, centerY - 300, 'pvp', 0xaa44ff);
+
     // Add NPC
     this.createNPC(centerX - 100, centerY + 200, 'Professor');
   }
@@ -382,14 +394,52 @@ export class OverworldScene extends BaseScene {
     interactPrompt.visible = false;
     this.hud.addChild(interactPrompt);
 
+    // Pending sync badge (below the stats, hidden when nothing is queued)
+    this.syncBadge = new PIXI.Container();
+    this.syncBadge.x = 10;
+    this.syncBadge.y = 118;
+    this.hud.addChild(this.syncBadge);
+    this.updateSyncBadge();
+    this.unsubscribeSyncQueue = useSyncQueueStore.subscribe(() => this.updateSyncBadge());
+
     // Store reference for updates
     (this.hud as any).statsText = statsText;
     (this.hud as any).interactPrompt = interactPrompt;
   }
 
+  private updateSyncBadge(): void {
+    const { isFlushing, getPendingCount } = useSyncQueueStore.getState();
+    const count = getPendingCount();
+
+    this.syncBadge.removeChildren();
+    this.syncBadge.visible = count > 0;
+    if (count === 0) return;
+
+    const label = new PIXI.Text({
+      text: isFlushing ? 'Syncing...' : `${count} pending sync`,
+      style: {
+        fontFamily: 'monospace',
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.WARNING,
+      },
+    });
+    label.x = 10;
+    label.y = 6;
+
+    const background = new PIXI.Graphics();
+    background.roundRect(0, 0, label.width + 20, label.height + 12, 6);
+    background.fill({ color: 0x000000, alpha: 0.7 });
+    background.stroke({ color: GAME_CONFIG.COLORS.WARNING, width: 1 });
+
+    this.syncBadge.addChild(background, label);
+  }
+
   private setupInput(): void {
     // Keyboard event handlers
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Overlays (pause menu, dialogs) handle their own input
+      if (this.isPaused()) return;
+
       this.keys.add(e.code);
 
       // Handle interaction - check if key is in interact array
@@ -422,26 +472,59 @@ export class OverworldScene extends BaseScene {
 
     switch (type) {
       case 'battle':
-        // TODO: Uncomment when BattleScene is implemented
-        // this.sceneManager.loadScene(SCENE_NAMES.BATTLE);
-        alert('Battle system coming soon!');
+        this.sceneManager.loadScene(SCENE_NAMES.BATTLE);
+        break;
+      case 'pvp':
+        this.sceneManager.loadScene(SCENE_NAMES.LOBBY);
+        break;
+      case 'training':
+        this.sceneManager.loadScene(SCENE_NAMES.TRAINING);
         break;
       case 'quiz':
-        this.sceneManager.loadScene(SCENE_NAMES.QUIZ);
+        this.sceneManager.loadScene(SCENE_NAMES.QUIZ_SELECT);
         break;
       case 'npc':
-        alert('NPC: Welcome to the world of Siblo!');
+        this.sceneManager.pushScene(SCENE_NAMES.DIALOG, {
+          title: 'NPC',
+          message: 'Welcome to the world of Siblo!',
+        });
         break;
     }
   }
 
+  /**
+   * Offer to resume an unfinished quiz attempt (once per session)
+   */
+  private offerQuizResume(): void {
+    const quizStore = useQuizStore.getState();
+    if (quizStore.hasOfferedResume) return;
+
+    const attempt = quizStore.getResumableAttempt();
+    if (!attempt) return;
+
+    this.sceneManager.pushScene(SCENE_NAMES.DIALOG, {
+      title: 'UNFINISHED QUIZ',
+      message: `You have an unfinished attempt at "${attempt.quizTitle}". Resume it now?`,
+      buttons: [
+        { text: 'LATER' },
+        {
+          text: 'RESUME',
+          color: GAME_CONFIG.COLORS.SUCCESS,
+          onSelect: () => this.sceneManager.loadScene(SCENE_NAMES.QUIZ, { quizId: attempt.quizId }),
+        },
+      ],
+    });
+    quizStore.markResumeOffered();
+  }
+
   private openMenu(): void {
-    const logout = confirm('Open Menu\n\nLogout?');
-    if (logout) {
-      useAuthStore.getState().logout();
-      usePlayerStore.getState().clearPlayerData();
-      this.sceneManager.loadScene(SCENE_NAMES.MENU);
-    }
+    this.sceneManager.pushScene(SCENE_NAMES.PAUSE_MENU);
+  }
+
+  pause(): void {
+    super.pause();
+    // Keys released while paused never reach our keyup handler
+    this.keys.clear();
   }
 
   private updateCamera(): void {
@@ -505,6 +588,12 @@ export class OverworldScene extends BaseScene {
   }
 
   update(_deltaTime: number): void {
+    // Wait for the fade-in to finish - pushScene is ignored during a transition
+    if (!this.hasCheckedQuizResume && !this.sceneManager.isBusy()) {
+      this.hasCheckedQuizResume = true;
+      this.offerQuizResume();
+    }
+
     // Determine movement direction
     let moving = false;
     let dx = 0;
@@ -600,6 +689,9 @@ export class OverworldScene extends BaseScene {
     // Clear keys
     this.keys.clear();
 
+    this.unsubscribeSyncQueue?.();
+    this.unsubscribeSyncQueue = null;
+
     // Clear interactables
     this.interactables = [];
     this.nearestInteractable = null;
@@ -0,0 +1,148 @@
+/**
+ * Party Scene (overlay)
+ *
+ * Shows the player's party Siblons with level, type and HP.
+ * Pushed from the pause menu; closing it returns to the menu.
+ */
+
+import * as PIXI from 'pixi.js';
+import { OverlayScene } from './OverlayScene';
+import { Button } from '../ui/Button';
+import { HealthBar } from '../ui/HealthBar';
+import { usePlayerStore } from '../state/playerStore';
+import { ELEMENT_COLORS, GAME_CONFIG, KEYBINDS, type ElementType } from '../config/constants';
+import type { PlayerSiblon } from '../api/types';
+
+const PANEL_WIDTH = 620;
+const ROW_HEIGHT = 56;
+
+export class PartyScene extends OverlayScene {
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (this.isPaused()) return;
+
+    if ((KEYBINDS.CANCEL as readonly string[]).includes(event.code)) {
+      this.close();
+    }
+  };
+
+  async load(): Promise<void> {
+    this.createBackdrop();
+
+    const { party } = usePlayerStore.getState();
+    const rows = Math.max(party.length, 1);
+    const panelHeight = 70 + rows * ROW_HEIGHT + 80;
+    const panel = this.createPanel(PANEL_WIDTH, panelHeight);
+
+    const title = new PIXI.Text({
+      text: `PARTY (${party.length}/${GAME_CONFIG.MAX_PARTY_SIZE})`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 20,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    title.x = 20;
+    title.y = 20;
+    panel.addChild(title);
+
+    if (party.length === 0) {
+      const emptyText = new PIXI.Text({
+        text: 'Your party is empty.',
+        style: {
+          fontFamily: GAME_CONFIG.FONTS.PIXEL,
+          fontSize: 14,
+          fill: GAME_CONFIG.COLORS.SECONDARY,
+        },
+      });
+      emptyText.x = 20;
+      emptyText.y = 70;
+      panel.addChild(emptyText);
+    }
+
+    party.forEach((siblon, index) => {
+      const row = this.createSiblonRow(siblon);
+      row.x = 20;
+      row.y = 70 + index * ROW_HEIGHT;
+      panel.addChild(row);
+    });
+
+    const closeButton = new Button({
+      text: 'CLOSE',
+      width: 160,
+      height: 50,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.close(),
+    });
+    closeButton.x = (PANEL_WIDTH - 160) / 2;
+    closeButton.y = panelHeight - 70;
+    panel.addChild(closeButton);
+
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  private createSiblonRow(siblon: PlayerSiblon): PIXI.Container {
+    const row = new PIXI.Container();
+    const type = siblon.species_data.type_primary as ElementType;
+
+    const typeBadge = new PIXI.Graphics();
+    typeBadge.rect(0, 0, 12, 40);
+    typeBadge.fill({ color: ELEMENT_COLORS[type] ?? GAME_CONFIG.COLORS.PRIMARY });
+    row.addChild(typeBadge);
+
+    const nameText = new PIXI.Text({
+      text: `${siblon.nickname ?? siblon.species_name}  Lv.${siblon.level}`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    nameText.x = 24;
+    nameText.y = 2;
+    row.addChild(nameText);
+
+    const typeText = new PIXI.Text({
+      text: siblon.species_data.type_secondary
+        ? `${siblon.species_data.type_primary}/${siblon.species_data.type_secondary}`
+        : siblon.species_data.type_primary,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 10,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    typeText.x = 24;
+    typeText.y = 24;
+    row.addChild(typeText);
+
+    const healthBar = new HealthBar({ width: 200, height: 12 });
+    healthBar.setHealth(siblon.current_hp, siblon.max_hp);
+    healthBar.x = 340;
+    healthBar.y = 6;
+    row.addChild(healthBar);
+
+    const hpText = new PIXI.Text({
+      text: `HP ${siblon.current_hp}/${siblon.max_hp}`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 10,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    hpText.x = 340;
+    hpText.y = 24;
+    row.addChild(hpText);
+
+    return row;
+  }
+
+  update(): void {
+    // Static list
+  }
+
+  async unload(): Promise<void> {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    await super.unload();
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Pause Menu Scene (overlay)
+ *
+ * Opened from the overworld with the MENU key or button.
+ * The overworld stays loaded underneath and picks up where it left off.
+ * Features:
+ * - Resume
+ * - Party screen
+ * - Logout
+ */
+
+import * as PIXI from 'pixi.js';
+import { OverlayScene } from './OverlayScene';
+import { Button } from '../ui/Button';
+import { useAuthStore } from '../state/authStore';
+import { usePlayerStore } from '../state/playerStore';
+import { GAME_CONFIG, KEYBINDS, SCENE_NAMES } from '../config/constants';
+
+const PANEL_WIDTH = 320;
+const PANEL_HEIGHT = 330;
+const BUTTON_WIDTH = 240;
+
+export class PauseMenuScene extends OverlayScene {
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (this.isPaused()) return;
+
+    if ((KEYBINDS.MENU as readonly string[]).includes(event.code)) {
+      this.close();
+    }
+  };
+
+  async load(): Promise<void> {
+    this.createBackdrop();
+    const panel = this.createPanel(PANEL_WIDTH, PANEL_HEIGHT);
+
+    const title = new PIXI.Text({
+      text: 'PAUSED',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 24,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    title.anchor.set(0.5, 0);
+    title.x = PANEL_WIDTH / 2;
+    title.y = 20;
+    panel.addChild(title);
+
+    const profile = usePlayerStore.getState().profile;
+    const statsText = new PIXI.Text({
+      text: profile ? `Level ${profile.level} | ${profile.coins} Coins` : '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    statsText.anchor.set(0.5, 0);
+    statsText.x = PANEL_WIDTH / 2;
+    statsText.y = 60;
+    panel.addChild(statsText);
+
+    const buttons = [
+      { text: 'RESUME', color: GAME_CONFIG.COLORS.SUCCESS, onClick: () => this.close() },
+      { text: 'PARTY', color: GAME_CONFIG.COLORS.PRIMARY, onClick: () => this.sceneManager.pushScene(SCENE_NAMES.PARTY) },
+      { text: 'LOGOUT', color: GAME_CONFIG.COLORS.DANGER, onClick: () => this.logout() },
+    ];
+
+    buttons.forEach((config, index) => {
+      const button = new Button({
+        text: config.text,
+        width: BUTTON_WIDTH,
+        height: 50,
+        fontSize: 14,
+        backgroundColor: config.color,
+        onClick: config.onClick,
+      });
+      button.x = (PANEL_WIDTH - BUTTON_WIDTH) / 2;
+      button.y = 100 + index * 70;
+      panel.addChild(button);
+    });
+
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  private logout(): void {
+    useAuthStore.getState().logout();
+    usePlayerStore.getState().clearPlayerData();
+    // Loading a scene closes this overlay and the overworld underneath
+    this.sceneManager.loadScene(SCENE_NAMES.MENU);
+  }
+
+  update(): void {
+    // Static menu
+  }
+
+  async unload(): Promise<void> {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    await super.unload();
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * PvP Battle Scene
+ *
+ * Battle against a classmate agreed in the PvP lobby.
+ * The challenger starts the battle and tells the opponent its ID over the
+ * lobby channel; the opponent joins that battle.
+ */
+
+import { BattleScene } from './BattleScene';
+import { useBattleStore } from '../state/battleStore';
+import { useLobbyStore } from '../state/lobbyStore';
+import { usePlayerStore } from '../state/playerStore';
+import type { BattleType, PlayerSiblon, StartBattleRequest } from '../api/types';
+
+export class PvpBattleScene extends BattleScene {
+  protected battleType: BattleType = 'pvp';
+
+  protected async pickSiblon(): Promise<PlayerSiblon> {
+    const { match } = useLobbyStore.getState();
+    if (!match) {
+      throw new Error('No PvP match to start. Find an opponent in the lobby first.');
+    }
+
+    const { party, collection } = usePlayerStore.getState();
+    const siblon = [...party, ...collection].find(candidate => candidate.id === match.siblonId);
+    if (!siblon) {
+      throw new Error('The Siblon you picked is no longer in your collection.');
+    }
+    return siblon;
+  }
+
+  protected async beginBattle(siblon: PlayerSiblon): Promise<void> {
+    const lobby = useLobbyStore.getState();
+    const { match } = lobby;
+    if (!match) {
+      throw new Error('No PvP match to start.');
+    }
+
+    try {
+      if (match.role === 'challenger') {
+        const request: StartBattleRequest = {
+          player_siblon_id: siblon.id,
+          battle_type: this.battleType,
+          opponent_id: match.opponentId,
+          ...(match.opponentSiblonId !== null && { opponent_siblon_id: match.opponentSiblonId }),
+        };
+
+        await useBattleStore.getState().startBattle(request);
+
+        const battleId = useBattleStore.getState().battle?.battle_id;
+        if (battleId) {
+          lobby.announceBattle(battleId);
+        }
+      } else {
+        await useBattleStore.getState().joinBattle(match.battleId);
+      }
+    } catch (error) {
+      // Don't leave the opponent waiting for a battle that never started
+      lobby.cancelMatch();
+      throw error;
+    } finally {
+      // The lobby is only needed until both sides know the battle
+      lobby.clearMatch();
+      lobby.leaveLobby();
+    }
+  }
+
+  async unload(): Promise<void> {
+    useLobbyStore.getState().leaveLobby();
+    await super.unload();
+  }
+}
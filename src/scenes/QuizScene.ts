@@ -3,8 +3,14 @@
  *
  * Educational quiz interface where players answer questions to earn rewards.
  * Features:
- * - Multiple choice questions
- * - Optional timer
+ * - Multiple choice and fill-in-the-blank questions
+ * - Question images and diagrams (media_url)
+ * - Inline math in questions and choices ($x^2$, \frac{a}{b}, \sqrt{x})
+ * - Countdown for timed quizzes (auto-submits when time runs out)
+ * - Resumes a saved attempt after a reload instead of starting a new one
+ * - Per-question answer review after submitting
+ * - Retries up to the quiz's max_attempts, keeping the best score
+ * - Queues answers for later when they can't be submitted (offline)
  * - Progress tracking
  * - Score calculation with rewards (XP, coins)
  */
@@ -12,25 +18,43 @@
 import * as PIXI from 'pixi.js';
 import { BaseScene } from './BaseScene';
 import { Button } from '../ui/Button';
-import { quizService } from '../api/QuizService';
-import { usePlayerStore } from '../state/playerStore';
-import { GAME_CONFIG, SCENE_NAMES } from '../config/constants';
+import { TextField } from '../ui/TextField';
+import { MathText } from '../ui/MathText';
+import { QuizReview } from '../ui/QuizReview';
+import { isAttemptLimitError, quizService } from '../api/QuizService';
+import { isTransientError } from '../api/ApiClient';
+import { useSyncQueueStore } from '../state/syncQueueStore';
+import {
+  applyQuizResults,
+  createAttemptTimer,
+  getAttemptsRemaining,
+  useQuizStore,
+  type ActiveQuizAttempt,
+} from '../state/quizStore';
+import { QuizTimer } from '../systems/QuizTimer';
+import { AssetLoader } from '../game/systems/AssetLoader';
+import { ENV } from '../config/env';
+import { GAME_CONFIG, QUIZ_CONFIG, SCENE_NAMES } from '../config/constants';
+import type { QuizSceneParams } from '../systems/SceneManager';
+import { ApiError } from '../api/types';
 import type {
   QuizDetail,
   QuizQuestion,
   Answer,
+  StartQuizResponse,
   SubmitQuizResponse,
 } from '../api/types';
 
-export class QuizScene extends BaseScene {
+export class QuizScene extends BaseScene<QuizSceneParams> {
   // Quiz data
-  private quizId: number = 1; // TODO: Pass from OverworldScene
+  private quizId: number = 0; // Set from the scene params in load()
   private quizData: QuizDetail | null = null;
   private attemptId: number | null = null;
   private currentQuestionIndex: number = 0;
   private selectedAnswers: Map<number, number[]> = new Map(); // questionId -> choice IDs
-  private timerStartTime: number = 0;
-  private useMockData: boolean = true; // Set to true for testing without backend (change to false when API is ready)
+  private textAnswers: Map<number, string> = new Map(); // questionId -> typed answer (fill_blank)
+  private timer: QuizTimer | null = null;
+  private isTimeUp: boolean = false;
 
   // UI containers
   private headerContainer: PIXI.Container = new PIXI.Container();
@@ -43,8 +67,10 @@ export class QuizScene extends BaseScene {
   private titleText!: PIXI.Text;
   private progressText!: PIXI.Text;
   private timerText!: PIXI.Text;
-  private questionText!: PIXI.Text;
+  private questionText!: MathText;
   private choiceButtons: Button[] = [];
+  private answerField: TextField | null = null; // DOM-backed input for fill_blank questions
+  private review: QuizReview | null = null;
   private prevButton!: Button;
   private nextButton!: Button;
   private submitButton!: Button;
@@ -54,8 +80,9 @@ export class QuizScene extends BaseScene {
   private isShowingResults: boolean = false;
   private isLoading: boolean = false;
 
-  async load(): Promise<void> {
+  async load(params: QuizSceneParams): Promise<void> {
     const { width, height } = this.getScreenSize();
+    this.quizId = params.quizId;
 
     // Background
     const bg = new PIXI.Graphics();
@@ -89,23 +116,29 @@ export class QuizScene extends BaseScene {
     try {
       console.log('[QuizScene] Loading quiz data for quiz ID:', this.quizId);
 
-      if (this.useMockData) {
-        console.log('[QuizScene] Using mock data for testing');
-        this.loadMockQuizData();
-        this.attemptId = 999; // Mock attempt ID
-      } else {
-        await this.loadQuizData();
-        console.log('[QuizScene] Quiz data loaded successfully');
+      await this.loadQuizData();
+      console.log('[QuizScene] Quiz data loaded successfully');
 
-        console.log('[QuizScene] Starting quiz attempt...');
+      const savedAttempt = useQuizStore.getState().getResumableAttempt(this.quizId);
+      if (savedAttempt) {
+        this.resumeAttempt(savedAttempt);
+      } else {
         await this.startQuizAttempt();
-        console.log('[QuizScene] Quiz attempt started, attempt ID:', this.attemptId);
+      }
+
+      if (ENV.DEBUG) {
+        console.log(`[QuizScene] ${savedAttempt ? 'Resumed' : 'Started'} quiz attempt, attempt ID:`, this.attemptId);
       }
 
       this.renderCurrentQuestion();
     } catch (error) {
       console.error('[QuizScene] Failed to load quiz:', error);
 
+      if (isAttemptLimitError(error)) {
+        this.showAttemptLimitReached();
+        return;
+      }
+
       // Show detailed error message
       let errorMessage = 'Failed to load quiz. ';
       if (error instanceof Error) {
@@ -221,9 +254,56 @@ export class QuizScene extends BaseScene {
   }
 
   private async startQuizAttempt(): Promise<void> {
-    const response = await quizService.startQuiz(this.quizId);
+    const response: StartQuizResponse = await quizService.startQuiz(this.quizId);
+    const localStartedAt = Date.now();
+    const timeLimitMinutes = this.quizData?.time_limit_minutes ?? null;
+
     this.attemptId = response.attempt_id;
-    this.timerStartTime = Date.now();
+    this.timer = new QuizTimer(response, timeLimitMinutes, localStartedAt);
+
+    // Saved so a reload can pick the attempt back up
+    useQuizStore.getState().startAttempt({
+      quizId: this.quizId,
+      quizTitle: this.quizData?.title ?? '',
+      attemptId: response.attempt_id,
+      startedAt: response.started_at,
+      expiresAt: response.expires_at,
+      localStartedAt,
+      timeLimitMinutes,
+      currentQuestionIndex: 0,
+      selectedAnswers: {},
+      textAnswers: {},
+    });
+  }
+
+  /**
+   * Restore answers, position and countdown from a saved attempt
+   */
+  private resumeAttempt(attempt: ActiveQuizAttempt): void {
+    const questionCount = this.quizData?.questions.length ?? 0;
+
+    this.attemptId = attempt.attemptId;
+    this.timer = createAttemptTimer(attempt);
+    this.currentQuestionIndex = Math.max(0, Math.min(attempt.currentQuestionIndex, questionCount - 1));
+
+    // JSON object keys come back as strings
+    this.selectedAnswers = new Map(
+      Object.entries(attempt.selectedAnswers).map(([questionId, choiceIds]) => [Number(questionId), choiceIds])
+    );
+    this.textAnswers = new Map(
+      Object.entries(attempt.textAnswers).map(([questionId, text]) => [Number(questionId), text])
+    );
+  }
+
+  /**
+   * Persist answers and position for resuming
+   */
+  private saveProgress(): void {
+    useQuizStore.getState().saveAttemptProgress({
+      currentQuestionIndex: this.currentQuestionIndex,
+      selectedAnswers: Object.fromEntries(this.selectedAnswers),
+      textAnswers: Object.fromEntries(this.textAnswers),
+    });
   }
 
   private renderCurrentQuestion(): void {
@@ -232,7 +312,11 @@ export class QuizScene extends BaseScene {
     const question = this.quizData.questions[this.currentQuestionIndex];
     const { width } = this.getScreenSize();
 
+    // Every answer change and navigation re-renders, so save here
+    this.saveProgress();
+
     // Clear previous question UI
+    this.destroyAnswerField();
     this.questionContainer.removeChildren();
     this.choicesContainer.removeChildren();
     this.choiceButtons = [];
@@ -240,16 +324,15 @@ export class QuizScene extends BaseScene {
     // Update progress
     this.progressText.text = `Question ${this.currentQuestionIndex + 1}/${this.quizData.questions.length}`;
 
+    // Questions with an image get the right half of the question area for it
+    const hasMedia = question.media_url !== null;
+
     // Question text
-    this.questionText = new PIXI.Text({
+    this.questionText = new MathText({
       text: question.question_text,
-      style: {
-        fontFamily: GAME_CONFIG.FONTS.PIXEL,
-        fontSize: 18,
-        fill: GAME_CONFIG.COLORS.TEXT,
-        wordWrap: true,
-        wordWrapWidth: width - 40,
-      },
+      fontSize: 18,
+      fill: GAME_CONFIG.COLORS.TEXT,
+      wordWrapWidth: hasMedia ? width / 2 - 30 : width - 40,
     });
     this.questionText.x = 20;
     this.questionText.y = 0;
@@ -277,17 +360,98 @@ export class QuizScene extends BaseScene {
         fill: GAME_CONFIG.COLORS.WARNING,
       },
     });
-    pointsText.x = width - pointsText.width - 20;
+    pointsText.x = hasMedia ? typeText.x + typeText.width + 20 : width - pointsText.width - 20;
     pointsText.y = this.questionText.height + 10;
     this.questionContainer.addChild(pointsText);
 
-    // Render choices
-    this.renderChoices(question);
+    if (question.media_url) {
+      this.renderQuestionMedia(question.media_url, width / 2 + 10, width / 2 - 30);
+    }
+
+    // Render choices (or a text box for fill-in-the-blank)
+    if (question.question_type === 'fill_blank') {
+      this.renderTextAnswer(question);
+    } else {
+      this.renderChoices(question);
+    }
 
     // Update navigation buttons
     this.updateNavigationButtons();
   }
 
+  /**
+   * Image beside the question text, scaled to fit its area
+   * Shows a placeholder while loading and a label if the image can't be loaded.
+   */
+  private renderQuestionMedia(url: string, x: number, areaWidth: number): void {
+    const areaHeight = QUIZ_CONFIG.MEDIA_MAX_HEIGHT;
+
+    const mediaContainer = new PIXI.Container();
+    mediaContainer.x = x;
+    this.questionContainer.addChild(mediaContainer);
+
+    const frame = new PIXI.Graphics();
+    frame.rect(0, 0, areaWidth, areaHeight);
+    frame.fill({ color: 0x2a2a3e });
+    frame.rect(0, 0, areaWidth, areaHeight);
+    frame.stroke({ color: 0x8B9BB4, width: 2 });
+    mediaContainer.addChild(frame);
+
+    const assetLoader = AssetLoader.getInstance();
+    const assetName = `quiz-media:${url}`;
+
+    // Already loaded (answer clicks re-render the question)
+    if (assetLoader.hasAsset(assetName)) {
+      this.showMediaTexture(mediaContainer, assetLoader.getAsset(assetName), areaWidth, areaHeight);
+      return;
+    }
+
+    const statusText = new PIXI.Text({
+      text: 'Loading image...',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    statusText.anchor.set(0.5);
+    statusText.x = areaWidth / 2;
+    statusText.y = areaHeight / 2;
+    mediaContainer.addChild(statusText);
+
+    assetLoader.loadImage(assetName, url)
+      .then((texture) => {
+        // Question may have changed while loading
+        if (mediaContainer.destroyed || !mediaContainer.parent) return;
+
+        statusText.destroy();
+        this.showMediaTexture(mediaContainer, texture, areaWidth, areaHeight);
+      })
+      .catch(() => {
+        if (mediaContainer.destroyed || !mediaContainer.parent) return;
+
+        statusText.text = 'Image unavailable';
+        statusText.style.fill = GAME_CONFIG.COLORS.DANGER;
+      });
+  }
+
+  private showMediaTexture(mediaContainer: PIXI.Container, texture: PIXI.Texture, areaWidth: number, areaHeight: number): void {
+    const sprite = new PIXI.Sprite(texture);
+
+    // Fit inside the frame, never scaling up
+    const padding = 8;
+    const scale = Math.min(
+      (areaWidth - padding * 2) / texture.width,
+      (areaHeight - padding * 2) / texture.height,
+      1
+    );
+    sprite.scale.set(scale);
+    sprite.anchor.set(0.5);
+    sprite.x = areaWidth / 2;
+    sprite.y = areaHeight / 2;
+    mediaContainer.addChild(sprite);
+  }
+
   private renderChoices(question: QuizQuestion): void {
     const { width } = this.getScreenSize();
     const sortedChoices = [...question.choices].sort((a, b) => a.order_index - b.order_index);
@@ -300,7 +464,7 @@ export class QuizScene extends BaseScene {
       const isSelected = selectedChoiceIds.includes(choice.id);
 
       const button = new Button({
-        text: choice.choice_text,
+        text: '',
         width: width - 40,
         height: 60,
         backgroundColor: isSelected ? GAME_CONFIG.COLORS.SECONDARY : GAME_CONFIG.COLORS.PRIMARY,
@@ -309,6 +473,18 @@ export class QuizScene extends BaseScene {
       button.x = 20;
       button.y = yOffset;
 
+      // Choice label may contain math, so it's laid out separately from the button text
+      const label = new MathText({
+        text: choice.choice_text,
+        fontSize: 20,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        wordWrapWidth: width - 60,
+        align: 'center',
+      });
+      label.x = 10;
+      label.y = (60 - label.height) / 2;
+      button.addChild(label);
+
       this.choiceButtons.push(button);
       this.choicesContainer.addChild(button);
 
@@ -331,6 +507,71 @@ export class QuizScene extends BaseScene {
     }
   }
 
+  private renderTextAnswer(question: QuizQuestion): void {
+    const { width } = this.getScreenSize();
+
+    this.answerField = new TextField({
+      placeholder: 'Type your answer...',
+      width: width - 40,
+      height: 50,
+      maxLength: 200,
+      fontSize: 18,
+      onChange: (value) => {
+        this.textAnswers.set(question.id, value);
+        this.saveProgress();
+      },
+    });
+    this.answerField.x = 20;
+    this.answerField.setValue(this.textAnswers.get(question.id) ?? '');
+    this.choicesContainer.addChild(this.answerField);
+    this.answerField.show(this.app);
+
+    const instructionText = new PIXI.Text({
+      text: '(Type the missing word or number)',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    instructionText.x = 20;
+    instructionText.y = 60;
+    this.choicesContainer.addChild(instructionText);
+  }
+
+  /**
+   * Remove the fill-in-the-blank input (its DOM element outlives the Pixi container otherwise)
+   */
+  private destroyAnswerField(): void {
+    if (this.answerField) {
+      this.answerField.destroy();
+      this.answerField = null;
+    }
+  }
+
+  private isAnswered(question: QuizQuestion): boolean {
+    if (question.question_type === 'fill_blank') {
+      return (this.textAnswers.get(question.id) ?? '').trim().length > 0;
+    }
+    return (this.selectedAnswers.get(question.id) ?? []).length > 0;
+  }
+
+  private buildAnswers(questions: QuizQuestion[]): Answer[] {
+    return questions.map((question) => {
+      if (question.question_type === 'fill_blank') {
+        return {
+          question_id: question.id,
+          selected_choice_ids: [],
+          text_answer: (this.textAnswers.get(question.id) ?? '').trim(),
+        };
+      }
+      return {
+        question_id: question.id,
+        selected_choice_ids: this.selectedAnswers.get(question.id) ?? [],
+      };
+    });
+  }
+
   private getQuestionTypeLabel(type: string): string {
     switch (type) {
       case 'multiple_choice':
@@ -410,7 +651,10 @@ export class QuizScene extends BaseScene {
     }
   }
 
-  private async handleSubmit(): Promise<void> {
+  /**
+   * @param isTimeUp - Submit whatever has been answered, without the unanswered check
+   */
+  private async handleSubmit(isTimeUp: boolean = false): Promise<void> {
     console.log('[QuizScene] Submit button clicked');
 
     if (this.isLoading || !this.quizData || !this.attemptId) {
@@ -423,14 +667,12 @@ export class QuizScene extends BaseScene {
     }
 
     // Check if all questions are answered
-    const unansweredCount = this.quizData.questions.filter(
-      q => !this.selectedAnswers.has(q.id) || this.selectedAnswers.get(q.id)!.length === 0
-    ).length;
+    const unansweredCount = this.quizData.questions.filter(q => !this.isAnswered(q)).length;
 
     console.log('[QuizScene] Unanswered questions:', unansweredCount);
     console.log('[QuizScene] Selected answers:', Array.from(this.selectedAnswers.entries()));
 
-    if (unansweredCount > 0) {
+    if (unansweredCount > 0 && !isTimeUp) {
       this.showError(`You have ${unansweredCount} unanswered question(s).`);
       return;
     }
@@ -439,48 +681,54 @@ export class QuizScene extends BaseScene {
     this.submitButton.setEnabled(false);
     this.submitButton.setText('SUBMITTING...');
 
+    // Build answers array
+    const answers = this.buildAnswers(this.quizData.questions);
+    let results: SubmitQuizResponse;
+
+    // Only the request itself is in here: anything failing after the server
+    // accepted the answers must not queue them to be submitted (and rewarded) again
     try {
-      let results: SubmitQuizResponse;
+      results = await quizService.submitQuiz(this.attemptId, answers);
+    } catch (error) {
+      console.error('Failed to submit quiz:', error);
 
-      if (this.useMockData) {
-        // Use mock submission
-        results = await this.handleMockSubmit();
-      } else {
-        // Build answers array
-        const answers: Answer[] = Array.from(this.selectedAnswers.entries()).map(
-          ([questionId, choiceIds]) => ({
-            question_id: questionId,
-            selected_choice_ids: choiceIds,
-          })
-        );
-
-        // Submit quiz
-        results = await quizService.submitQuiz(this.attemptId, answers);
+      if (isTransientError(error)) {
+        // Offline - keep the answers and submit them when the connection is back
+        useSyncQueueStore.getState().enqueueQuizSubmission({
+          quizId: this.quizId,
+          attemptId: this.attemptId,
+          answers,
+          label: this.quizData.title,
+        });
+        useQuizStore.getState().clearAttempt();
+        this.showQueuedForSync();
+        return;
       }
 
-      // Update player store with rewards
-      const playerStore = usePlayerStore.getState();
-      if (results.rewards.experience_points > 0) {
-        playerStore.addExperience(results.rewards.experience_points);
-      }
-      if (results.rewards.coins > 0) {
-        playerStore.addCoins(results.rewards.coins);
+      // Signed out - the session expired dialog explains, and the attempt stays saved for after login
+      if (!(error instanceof ApiError && error.statusCode === 401)) {
+        this.showError('Failed to submit quiz. Please try again.');
       }
-
-      // Show results
-      this.showResults(results);
-    } catch (error) {
-      console.error('Failed to submit quiz:', error);
-      this.showError('Failed to submit quiz. Please try again.');
       this.submitButton.setEnabled(true);
       this.submitButton.setText('SUBMIT');
+      return;
     } finally {
       this.isLoading = false;
     }
+
+    // Submitted - nothing left to resume
+    useQuizStore.getState().clearAttempt();
+
+    // Record the score and add the rewards
+    applyQuizResults(this.quizId, results);
+
+    // Show results
+    this.showResults(results);
   }
 
   private showResults(results: SubmitQuizResponse): void {
     this.isShowingResults = true;
+    this.destroyAnswerField();
 
     // Hide other containers
     this.headerContainer.visible = false;
@@ -546,6 +794,26 @@ export class QuizScene extends BaseScene {
     timeText.y = yOffset;
     this.resultsContainer.addChild(timeText);
 
+    yOffset += 40;
+
+    // Best score and attempts left
+    const history = useQuizStore.getState().getAttemptHistory(this.quizId);
+    const attemptsRemaining = getAttemptsRemaining(this.quizData?.max_attempts ?? null, history);
+
+    const attemptsText = new PIXI.Text({
+      text: `Best score: ${(history.bestPercentage ?? results.percentage).toFixed(1)}%  |  ${
+        attemptsRemaining === null ? 'Unlimited attempts' : `Attempts left: ${attemptsRemaining}`
+      }`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: attemptsRemaining === 0 ? GAME_CONFIG.COLORS.DANGER : GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    attemptsText.x = (width - attemptsText.width) / 2;
+    attemptsText.y = yOffset;
+    this.resultsContainer.addChild(attemptsText);
+
     yOffset += 50;
 
     // Rewards header
@@ -593,19 +861,80 @@ export class QuizScene extends BaseScene {
 
     yOffset += 60;
 
+    // Review button
+    const reviewButton = new Button({
+      text: 'REVIEW ANSWERS',
+      width: 220,
+      height: 50,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.WARNING,
+      onClick: () => this.showReview(results),
+    });
+    reviewButton.x = width / 2 - 390;
+    reviewButton.y = yOffset;
+    reviewButton.setEnabled(results.answers.length > 0);
+    this.resultsContainer.addChild(reviewButton);
+
+    // Retry button (disabled once max_attempts is used up)
+    const retryButton = new Button({
+      text: attemptsRemaining === 0 ? 'NO RETRIES LEFT' : 'RETRY',
+      width: 220,
+      height: 50,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.SUCCESS,
+      onClick: () => this.retryQuiz(),
+    });
+    retryButton.x = width / 2 - 150;
+    retryButton.y = yOffset;
+    retryButton.setEnabled(attemptsRemaining !== 0);
+    this.resultsContainer.addChild(retryButton);
+
     // Return button
     const returnButton = new Button({
       text: 'RETURN TO OVERWORLD',
-      width: 350,
+      width: 300,
       height: 50,
+      fontSize: 14,
       backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
       onClick: () => this.returnToOverworld(),
     });
-    returnButton.x = (width - 350) / 2;
+    returnButton.x = width / 2 + 90;
     returnButton.y = yOffset;
     this.resultsContainer.addChild(returnButton);
   }
 
+  /**
+   * Walk through each question against the correct answers
+   */
+  private showReview(results: SubmitQuizResponse): void {
+    if (!this.quizData || this.review) return;
+
+    const { width, height } = this.getScreenSize();
+
+    this.resultsContainer.visible = false;
+
+    this.review = new QuizReview({
+      width: width - 40,
+      height: height - 40,
+      questions: this.quizData.questions,
+      results: results.answers,
+      selectedAnswers: this.selectedAnswers,
+      textAnswers: this.textAnswers,
+      onClose: () => this.closeReview(),
+    });
+    this.review.x = 20;
+    this.review.y = 20;
+    this.container.addChild(this.review);
+  }
+
+  private closeReview(): void {
+    if (!this.review) return;
+
+    this.review.destroy({ children: true });
+    this.review = null;
+    this.resultsContainer.visible = true;
+  }
+
   private showLoading(): void {
     const { width, height } = this.getScreenSize();
 
@@ -670,6 +999,7 @@ export class QuizScene extends BaseScene {
     const { width, height } = this.getScreenSize();
 
     // Clear other containers
+    this.destroyAnswerField();
     this.questionContainer.removeChildren();
     this.choicesContainer.removeChildren();
     this.navigationContainer.removeChildren();
@@ -720,14 +1050,156 @@ export class QuizScene extends BaseScene {
     this.questionContainer.addChild(backButton);
   }
 
+  /**
+   * Shown when the server refuses a new attempt because max_attempts is used up
+   */
+  private showAttemptLimitReached(): void {
+    const { width, height } = this.getScreenSize();
+    const maxAttempts = this.quizData?.max_attempts ?? null;
+
+    useQuizStore.getState().markAttemptsExhausted(this.quizId, maxAttempts);
+    const { bestPercentage } = useQuizStore.getState().getAttemptHistory(this.quizId);
+
+    // Clear other containers
+    this.destroyAnswerField();
+    this.questionContainer.removeChildren();
+    this.choicesContainer.removeChildren();
+    this.navigationContainer.removeChildren();
+
+    const panel = new PIXI.Graphics();
+    panel.rect(50, height / 2 - 150, width - 100, 300);
+    panel.fill({ color: 0x2a2a3e });
+    panel.stroke({ color: GAME_CONFIG.COLORS.WARNING, width: 3 });
+    this.questionContainer.addChild(panel);
+
+    const title = new PIXI.Text({
+      text: 'NO ATTEMPTS LEFT',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 24,
+        fill: GAME_CONFIG.COLORS.WARNING,
+      },
+    });
+    title.x = (width - title.width) / 2;
+    title.y = height / 2 - 120;
+    this.questionContainer.addChild(title);
+
+    const lines = [
+      maxAttempts !== null
+        ? `You have used all ${maxAttempts} attempt(s) for this quiz.`
+        : 'You have used all your attempts for this quiz.',
+    ];
+    if (bestPercentage !== null) {
+      lines.push(`Your best score: ${bestPercentage.toFixed(1)}%`);
+    }
+
+    const message = new PIXI.Text({
+      text: lines.join('\n\n'),
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        align: 'center',
+        wordWrap: true,
+        wordWrapWidth: width - 140,
+      },
+    });
+    message.x = (width - message.width) / 2;
+    message.y = height / 2 - 60;
+    this.questionContainer.addChild(message);
+
+    const backButton = new Button({
+      text: 'BACK TO QUIZZES',
+      width: 300,
+      height: 50,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.sceneManager.loadScene(SCENE_NAMES.QUIZ_SELECT),
+    });
+    backButton.x = (width - 300) / 2;
+    backButton.y = height / 2 + 60;
+    this.questionContainer.addChild(backButton);
+  }
+
+  /**
+   * Shown when the answers were queued because the submission couldn't reach the server
+   */
+  private showQueuedForSync(): void {
+    const { width, height } = this.getScreenSize();
+
+    // Nothing left to answer or time
+    this.isShowingResults = true;
+    this.destroyAnswerField();
+    this.questionContainer.removeChildren();
+    this.choicesContainer.removeChildren();
+    this.navigationContainer.removeChildren();
+
+    const panel = new PIXI.Graphics();
+    panel.rect(50, height / 2 - 150, width - 100, 300);
+    panel.fill({ color: 0x2a2a3e });
+    panel.stroke({ color: GAME_CONFIG.COLORS.WARNING, width: 3 });
+    this.questionContainer.addChild(panel);
+
+    const title = new PIXI.Text({
+      text: 'ANSWERS SAVED',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 24,
+        fill: GAME_CONFIG.COLORS.WARNING,
+      },
+    });
+    title.x = (width - title.width) / 2;
+    title.y = height / 2 - 120;
+    this.questionContainer.addChild(title);
+
+    const message = new PIXI.Text({
+      text: "Your answers couldn't be sent - you seem to be offline.\n\n" +
+        "They're saved on this device and will be submitted automatically when you're back online. " +
+        'Your score and rewards will show up then.',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        align: 'center',
+        wordWrap: true,
+        wordWrapWidth: width - 140,
+      },
+    });
+    message.x = (width - message.width) / 2;
+    message.y = height / 2 - 60;
+    this.questionContainer.addChild(message);
+
+    const returnButton = new Button({
+      text: 'RETURN TO OVERWORLD',
+      width: 300,
+      height: 50,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.returnToOverworld(),
+    });
+    returnButton.x = (width - 300) / 2;
+    returnButton.y = height / 2 + 60;
+    this.questionContainer.addChild(returnButton);
+  }
+
+  /**
+   * Start a fresh attempt of the same quiz
+   */
+  private retryQuiz(): void {
+    this.sceneManager.loadScene(SCENE_NAMES.QUIZ, { quizId: this.quizId });
+  }
+
   private handleExit(): void {
     if (this.isShowingResults) {
       this.returnToOverworld();
     } else {
       // Confirm exit if quiz is in progress
-      if (confirm('Are you sure you want to exit? Your progress will be lost.')) {
-        this.returnToOverworld();
-      }
+      this.sceneManager.pushScene(SCENE_NAMES.DIALOG, {
+        title: 'LEAVE QUIZ?',
+        message: 'Are you sure you want to exit? Your answers are saved, so you can resume until time runs out.',
+        buttons: [
+          { text: 'STAY' },
+          { text: 'EXIT', color: GAME_CONFIG.COLORS.DANGER, onSelect: () => this.returnToOverworld() },
+        ],
+      });
     }
   }
 
@@ -741,24 +1213,43 @@ export class QuizScene extends BaseScene {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   }
 
+  pause(): void {
+    super.pause();
+    // The DOM input would sit on top of the overlay
+    this.answerField?.hide();
+  }
+
+  resume(): void {
+    super.resume();
+    this.answerField?.show(this.app);
+  }
+
   update(_deltaTime: number): void {
-    if (!this.isShowingResults && this.quizData?.time_limit_minutes) {
-      // Update timer display
-      const elapsedSeconds = Math.floor((Date.now() - this.timerStartTime) / 1000);
-      const totalSeconds = this.quizData.time_limit_minutes * 60;
-      const remainingSeconds = Math.max(0, totalSeconds - elapsedSeconds);
+    // Keep the DOM input over its field (window resizes)
+    this.answerField?.updateInputPosition(this.app);
 
-      this.timerText.text = `Time: ${this.formatTime(remainingSeconds)}`;
+    if (this.isShowingResults || !this.timer) return;
 
-      // Check if time expired
-      if (remainingSeconds <= 0) {
-        this.handleSubmit();
-      }
+    if (!this.timer.isTimed()) {
+      // Untimed quiz - count up
+      this.timerText.text = `Time: ${this.formatTime(this.timer.getElapsedSeconds())}`;
+      return;
+    }
 
-      // Warning color when time is running out
-      if (remainingSeconds < 60) {
-        this.timerText.style.fill = GAME_CONFIG.COLORS.DANGER;
-      }
+    // Update countdown display
+    const remainingSeconds = this.timer.getRemainingSeconds();
+    this.timerText.text = `Time left: ${this.formatTime(remainingSeconds)}`;
+
+    // Warning color when time is running out
+    if (remainingSeconds < QUIZ_CONFIG.TIMER_WARNING_SECONDS) {
+      this.timerText.style.fill = GAME_CONFIG.COLORS.DANGER;
+    }
+
+    // Submit the current answers once when time runs out
+    if (this.timer.isExpired() && !this.isTimeUp) {
+      this.isTimeUp = true;
+      this.showError('Time is up! Submitting your answers...');
+      this.handleSubmit(true);
     }
   }
 
@@ -766,116 +1257,12 @@ export class QuizScene extends BaseScene {
     // Clear all data
     this.quizData = null;
     this.attemptId = null;
+    this.timer = null;
     this.selectedAnswers.clear();
+    this.textAnswers.clear();
+    this.destroyAnswerField();
     this.choiceButtons = [];
 
     await super.unload();
   }
-
-  /**
-   * Set quiz ID before loading the scene
-   * @param quizId - ID of quiz to load
-   */
-  setQuizId(quizId: number): void {
-    this.quizId = quizId;
-  }
-
-  /**
-   * Load mock quiz data for testing without backend
-   */
-  private loadMockQuizData(): void {
-    this.quizData = {
-      id: 1,
-      title: 'Sample Math Quiz',
-      description: 'Test your math skills!',
-      subject: 'Mathematics',
-      topic: 'Basic Arithmetic',
-      difficulty_level: 'easy',
-      time_limit_minutes: null,
-      max_attempts: null,
-      pass_threshold: 60,
-      questions: [
-        {
-          id: 1,
-          question_text: 'What is 2 + 2?',
-          question_type: 'multiple_choice',
-          points: 10,
-          media_url: null,
-          choices: [
-            { id: 1, choice_text: '3', order_index: 0 },
-            { id: 2, choice_text: '4', order_index: 1 },
-            { id: 3, choice_text: '5', order_index: 2 },
-            { id: 4, choice_text: '6', order_index: 3 },
-          ],
-        },
-        {
-          id: 2,
-          question_text: 'What is 5 x 3?',
-          question_type: 'multiple_choice',
-          points: 10,
-          media_url: null,
-          choices: [
-            { id: 5, choice_text: '12', order_index: 0 },
-            { id: 6, choice_text: '15', order_index: 1 },
-            { id: 7, choice_text: '18', order_index: 2 },
-            { id: 8, choice_text: '20', order_index: 3 },
-          ],
-        },
-        {
-          id: 3,
-          question_text: 'What is 10 - 4?',
-          question_type: 'multiple_choice',
-          points: 10,
-          media_url: null,
-          choices: [
-            { id: 9, choice_text: '5', order_index: 0 },
-            { id: 10, choice_text: '6', order_index: 1 },
-            { id: 11, choice_text: '7', order_index: 2 },
-            { id: 12, choice_text: '8', order_index: 3 },
-          ],
-        },
-      ],
-    };
-
-    this.titleText.text = this.quizData.title;
-  }
-
-  /**
-   * Handle mock quiz submission (for testing)
-   */
-  private async handleMockSubmit(): Promise<SubmitQuizResponse> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // Calculate mock score (just check if any answers were selected)
-    const totalQuestions = this.quizData!.questions.length;
-    const totalPoints = this.quizData!.questions.reduce((sum, q) => sum + q.points, 0);
-
-    // Mock: give full points if answer was selected
-    const score = this.selectedAnswers.size * (totalPoints / totalQuestions);
-    const percentage = (score / totalPoints) * 100;
-    const passed = percentage >= this.quizData!.pass_threshold;
-
-    const mockResults: SubmitQuizResponse = {
-      score: Math.floor(score),
-      max_score: totalPoints,
-      percentage: Math.floor(percentage),
-      passed,
-      time_taken: Math.floor((Date.now() - this.timerStartTime) / 1000),
-      rewards: {
-        experience_points: passed ? 100 : 50,
-        coins: passed ? 50 : 25,
-        items: [],
-      },
-      answers: this.quizData!.questions.map(q => ({
-        question_id: q.id,
-        is_correct: true, // Mock: always correct
-        correct_answer: [q.choices[1].id], // Mock: second choice is always correct
-        points_earned: q.points,
-        explanation: null,
-      })),
-    };
-
-    return mockResults;
-  }
 }
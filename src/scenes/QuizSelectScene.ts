@@ -0,0 +1,377 @@
+/**
+ * Quiz Select Scene
+ *
+ * Quiz browser reached from the overworld quiz portal.
+ * Features:
+ * - Lists available quizzes (featured first)
+ * - Subject and difficulty filters
+ * - Paging through long lists
+ * - Launches QuizScene with the chosen quiz
+ */
+
+import * as PIXI from 'pixi.js';
+import { BaseScene } from './BaseScene';
+import { Button } from '../ui/Button';
+import {
+  DIFFICULTY_LEVELS,
+  filterQuizzes,
+  getAttemptsRemaining,
+  getQuizSubjects,
+  useQuizStore,
+} from '../state/quizStore';
+import { GAME_CONFIG, QUIZ_CONFIG, SCENE_NAMES } from '../config/constants';
+import type { DifficultyLevel, Quiz } from '../api/types';
+
+const DIFFICULTY_COLORS: Record<DifficultyLevel, number> = {
+  easy: GAME_CONFIG.COLORS.SUCCESS,
+  medium: GAME_CONFIG.COLORS.WARNING,
+  hard: GAME_CONFIG.COLORS.DANGER,
+};
+
+const ROW_HEIGHT = 84;
+
+export class QuizSelectScene extends BaseScene {
+  private unsubscribe: (() => void) | null = null;
+  private page: number = 0;
+
+  // UI elements
+  private statusText!: PIXI.Text;
+  private subjectButton!: Button;
+  private difficultyButton!: Button;
+  private listContainer: PIXI.Container = new PIXI.Container();
+  private pageText!: PIXI.Text;
+  private prevButton!: Button;
+  private nextButton!: Button;
+
+  async load(): Promise<void> {
+    const { width, height } = this.getScreenSize();
+
+    // Background
+    const bg = new PIXI.Graphics();
+    bg.rect(0, 0, width, height);
+    bg.fill({ color: GAME_CONFIG.COLORS.BACKGROUND });
+    this.container.addChild(bg);
+
+    this.createHeader();
+    this.createFilters();
+    this.createPaging();
+
+    this.listContainer.x = 20;
+    this.listContainer.y = 150;
+    this.container.addChild(this.listContainer);
+
+    this.unsubscribe = useQuizStore.subscribe(() => this.renderList());
+    this.statusText.text = 'Loading quizzes...';
+
+    try {
+      await useQuizStore.getState().fetchQuizzes();
+    } catch (error) {
+      console.error('[QuizSelectScene] Failed to load quizzes:', error);
+      if (!this.container.destroyed) {
+        this.statusText.text = error instanceof Error
+          ? `Could not load quizzes: ${error.message}`
+          : 'Could not load quizzes.';
+      }
+      return;
+    }
+
+    this.renderList();
+  }
+
+  private createHeader(): void {
+    const { width } = this.getScreenSize();
+
+    const title = new PIXI.Text({
+      text: 'QUIZZES',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 24,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    title.x = 20;
+    title.y = 20;
+    this.container.addChild(title);
+
+    this.statusText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+        wordWrap: true,
+        wordWrapWidth: width - 220,
+      },
+    });
+    this.statusText.x = 20;
+    this.statusText.y = 60;
+    this.container.addChild(this.statusText);
+
+    const backButton = new Button({
+      text: 'BACK',
+      width: 150,
+      height: 44,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.sceneManager.loadScene(SCENE_NAMES.OVERWORLD),
+    });
+    backButton.x = width - 170;
+    backButton.y = 20;
+    this.container.addChild(backButton);
+  }
+
+  private createFilters(): void {
+    this.subjectButton = new Button({
+      text: 'SUBJECT: ALL',
+      width: 300,
+      height: 36,
+      fontSize: 12,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.cycleSubject(),
+    });
+    this.subjectButton.x = 20;
+    this.subjectButton.y = 96;
+    this.container.addChild(this.subjectButton);
+
+    this.difficultyButton = new Button({
+      text: 'DIFFICULTY: ALL',
+      width: 240,
+      height: 36,
+      fontSize: 12,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.cycleDifficulty(),
+    });
+    this.difficultyButton.x = 340;
+    this.difficultyButton.y = 96;
+    this.container.addChild(this.difficultyButton);
+  }
+
+  private createPaging(): void {
+    const { width, height } = this.getScreenSize();
+
+    this.prevButton = new Button({
+      text: '< PREV',
+      width: 120,
+      height: 40,
+      fontSize: 12,
+      onClick: () => this.changePage(-1),
+    });
+    this.prevButton.x = 20;
+    this.prevButton.y = height - 60;
+    this.container.addChild(this.prevButton);
+
+    this.pageText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.pageText.anchor.set(0.5);
+    this.pageText.x = width / 2;
+    this.pageText.y = height - 40;
+    this.container.addChild(this.pageText);
+
+    this.nextButton = new Button({
+      text: 'NEXT >',
+      width: 120,
+      height: 40,
+      fontSize: 12,
+      onClick: () => this.changePage(1),
+    });
+    this.nextButton.x = width - 140;
+    this.nextButton.y = height - 60;
+    this.container.addChild(this.nextButton);
+  }
+
+  /**
+   * All -> each subject in the list -> All
+   */
+  private cycleSubject(): void {
+    const store = useQuizStore.getState();
+    const subjects = getQuizSubjects(store.quizzes);
+    const index = store.subjectFilter === null ? -1 : subjects.indexOf(store.subjectFilter);
+
+    this.page = 0;
+    store.setSubjectFilter(index + 1 < subjects.length ? subjects[index + 1] : null);
+  }
+
+  /**
+   * All -> easy -> medium -> hard -> All
+   */
+  private cycleDifficulty(): void {
+    const store = useQuizStore.getState();
+    const index = store.difficultyFilter === null ? -1 : DIFFICULTY_LEVELS.indexOf(store.difficultyFilter);
+
+    this.page = 0;
+    store.setDifficultyFilter(index + 1 < DIFFICULTY_LEVELS.length ? DIFFICULTY_LEVELS[index + 1] : null);
+  }
+
+  private changePage(delta: number): void {
+    this.page += delta;
+    this.renderList();
+  }
+
+  private renderList(): void {
+    if (this.container.destroyed) return;
+
+    // Checked first: dropping an expired attempt updates the store (and re-renders)
+    const resumableQuizId = useQuizStore.getState().getResumableAttempt()?.quizId ?? null;
+    const { quizzes, subjectFilter, difficultyFilter, isLoading } = useQuizStore.getState();
+
+    this.subjectButton.setText(`SUBJECT: ${(subjectFilter ?? 'All').toUpperCase()}`);
+    this.difficultyButton.setText(`DIFFICULTY: ${(difficultyFilter ?? 'All').toUpperCase()}`);
+
+    const filtered = filterQuizzes(quizzes, subjectFilter, difficultyFilter);
+    const pageSize = QUIZ_CONFIG.VISIBLE_QUIZZES;
+    const pageCount = Math.max(1, Math.ceil(filtered.length / pageSize));
+    this.page = Math.max(0, Math.min(this.page, pageCount - 1));
+
+    this.listContainer.removeChildren().forEach(child => child.destroy({ children: true }));
+    filtered
+      .slice(this.page * pageSize, (this.page + 1) * pageSize)
+      .forEach((quiz, index) => {
+        const row = this.createQuizRow(quiz, quiz.id === resumableQuizId);
+        row.y = index * ROW_HEIGHT;
+        this.listContainer.addChild(row);
+      });
+
+    if (!isLoading) {
+      if (quizzes.length === 0) {
+        this.statusText.text = 'No quizzes are available right now.';
+      } else if (filtered.length === 0) {
+        this.statusText.text = 'No quizzes match these filters.';
+      } else {
+        this.statusText.text = `${filtered.length} quiz${filtered.length === 1 ? '' : 'zes'} - pick one to start`;
+      }
+    }
+
+    this.pageText.text = `Page ${this.page + 1}/${pageCount}`;
+    this.prevButton.setEnabled(this.page > 0);
+    this.nextButton.setEnabled(this.page < pageCount - 1);
+  }
+
+  private createQuizRow(quiz: Quiz, canResume: boolean): PIXI.Container {
+    const { width } = this.getScreenSize();
+    const rowWidth = width - 40;
+
+    const row = new PIXI.Container();
+
+    const panel = new PIXI.Graphics();
+    panel.rect(0, 0, rowWidth, ROW_HEIGHT - 10);
+    panel.fill({ color: 0x2a2a3e });
+    panel.stroke({ color: quiz.is_featured ? GAME_CONFIG.COLORS.WARNING : 0x8B9BB4, width: 2 });
+    row.addChild(panel);
+
+    const title = new PIXI.Text({
+      text: quiz.title,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    title.x = 12;
+    title.y = 10;
+    row.addChild(title);
+
+    if (quiz.is_featured) {
+      const badge = new PIXI.Graphics();
+      badge.rect(0, 0, 90, 18);
+      badge.fill({ color: GAME_CONFIG.COLORS.WARNING });
+      badge.x = title.x + title.width + 12;
+      badge.y = 8;
+      row.addChild(badge);
+
+      const badgeText = new PIXI.Text({
+        text: 'FEATURED',
+        style: {
+          fontFamily: GAME_CONFIG.FONTS.PIXEL,
+          fontSize: 10,
+          fill: GAME_CONFIG.COLORS.BACKGROUND,
+        },
+      });
+      badgeText.anchor.set(0.5);
+      badgeText.x = badge.x + 45;
+      badgeText.y = badge.y + 9;
+      row.addChild(badgeText);
+    }
+
+    const subjectText = new PIXI.Text({
+      text: `${quiz.subject} - ${quiz.topic}`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 11,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    subjectText.x = 12;
+    subjectText.y = 32;
+    row.addChild(subjectText);
+
+    const difficultyText = new PIXI.Text({
+      text: quiz.difficulty_level.toUpperCase(),
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 11,
+        fill: DIFFICULTY_COLORS[quiz.difficulty_level],
+      },
+    });
+    difficultyText.x = 12;
+    difficultyText.y = 52;
+    row.addChild(difficultyText);
+
+    const timeLimit = quiz.time_limit_minutes ? `${quiz.time_limit_minutes} min` : 'No time limit';
+    const history = useQuizStore.getState().getAttemptHistory(quiz.id);
+    const attemptsRemaining = getAttemptsRemaining(quiz.max_attempts, history);
+    const details = [`${quiz.question_count} questions`, timeLimit];
+    if (attemptsRemaining !== null) {
+      details.push(`${attemptsRemaining} attempt(s) left`);
+    }
+    if (history.bestPercentage !== null) {
+      details.push(`Best ${history.bestPercentage.toFixed(0)}%`);
+    }
+    const detailsText = new PIXI.Text({
+      text: details.join(' | '),
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 11,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    detailsText.x = difficultyText.x + difficultyText.width + 16;
+    detailsText.y = 52;
+    row.addChild(detailsText);
+
+    const startButton = new Button({
+      text: canResume ? 'RESUME' : 'START',
+      width: 120,
+      height: 40,
+      fontSize: 12,
+      backgroundColor: GAME_CONFIG.COLORS.SUCCESS,
+      onClick: () => this.startQuiz(quiz),
+    });
+    startButton.x = rowWidth - 132;
+    startButton.y = (ROW_HEIGHT - 10 - 40) / 2;
+    startButton.setEnabled(canResume || attemptsRemaining !== 0);
+    row.addChild(startButton);
+
+    return row;
+  }
+
+  private startQuiz(quiz: Quiz): void {
+    this.sceneManager.loadScene(SCENE_NAMES.QUIZ, { quizId: quiz.id });
+  }
+
+  update(): void {
+    // Static list; re-rendered on store changes
+  }
+
+  async unload(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    await super.unload();
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Replay Scene
+ *
+ * Plays back a completed battle from its battle log.
+ * Features:
+ * - Loads the battle given in the scene params
+ * - HP bars follow the log entry by entry
+ * - Play/pause, step, speed and restart controls
+ * - Keyboard: Space play/pause, Right/Left step forward/back
+ */
+
+import * as PIXI from 'pixi.js';
+import { BaseScene } from './BaseScene';
+import { Button } from '../ui/Button';
+import { CombatantPanel } from '../ui/CombatantPanel';
+import { usePlayerStore } from '../state/playerStore';
+import { useAuthStore } from '../state/authStore';
+import { useBattleStore } from '../state/battleStore';
+import { BattleReplay } from '../systems/BattleReplay';
+import { BATTLE_CONFIG, GAME_CONFIG, SCENE_NAMES } from '../config/constants';
+import type { ReplaySceneParams } from '../systems/SceneManager';
+import type { BattleState } from '../api/types';
+
+export class ReplayScene extends BaseScene<ReplaySceneParams> {
+  private replay: BattleReplay | null = null;
+  private playerSide: 'player1' | 'player2' = 'player1';
+
+  // UI elements
+  private titleText!: PIXI.Text;
+  private progressText!: PIXI.Text;
+  private opponentPanel!: CombatantPanel;
+  private playerPanel!: CombatantPanel;
+  private logText!: PIXI.Text;
+  private playButton!: Button;
+  private speedButton!: Button;
+  private controlsContainer: PIXI.Container = new PIXI.Container();
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.replay || this.isPaused()) return;
+
+    switch (event.code) {
+      case 'Space':
+        event.preventDefault();
+        this.replay.togglePlay();
+        break;
+      case 'ArrowRight':
+        this.replay.stepForward();
+        break;
+      case 'ArrowLeft':
+        this.replay.stepBack();
+        break;
+      default:
+        return;
+    }
+    this.renderFrame();
+  };
+
+  async load(params: ReplaySceneParams): Promise<void> {
+    const { width, height } = this.getScreenSize();
+
+    // Background
+    const bg = new PIXI.Graphics();
+    bg.rect(0, 0, width, height);
+    bg.fill({ color: GAME_CONFIG.COLORS.BACKGROUND });
+    this.container.addChild(bg);
+
+    this.createHeader();
+    this.createArena();
+    this.createLog();
+    this.createControls();
+
+    this.logText.text = 'Loading replay...';
+
+    try {
+      useBattleStore.getState().setReplayBattle(params.battleId, params.battle);
+      await useBattleStore.getState().loadReplay();
+    } catch (error) {
+      console.error('[ReplayScene] Failed to load replay:', error);
+      this.controlsContainer.visible = false;
+      this.logText.text = error instanceof Error ? error.message : 'Failed to load replay.';
+      return;
+    }
+
+    // Scene may have been left while loading
+    if (this.container.destroyed) return;
+
+    const battle = useBattleStore.getState().replay;
+    if (!battle) return;
+
+    this.replay = new BattleReplay(battle);
+    this.playerSide = this.resolvePlayerSide(battle);
+    this.titleText.text = `REPLAY - ${battle.player1.username} vs ${battle.player2.username}`;
+
+    window.addEventListener('keydown', this.handleKeyDown);
+
+    this.replay.play();
+    this.renderFrame();
+  }
+
+  private createHeader(): void {
+    const { width } = this.getScreenSize();
+    const header = new PIXI.Container();
+    header.y = 20;
+    this.container.addChild(header);
+
+    this.titleText = new PIXI.Text({
+      text: 'REPLAY',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 20,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.titleText.x = 20;
+    header.addChild(this.titleText);
+
+    this.progressText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    this.progressText.x = 20;
+    this.progressText.y = 40;
+    header.addChild(this.progressText);
+
+    const backButton = new Button({
+      text: 'BACK',
+      width: 150,
+      height: 44,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => this.sceneManager.loadScene(SCENE_NAMES.OVERWORLD),
+    });
+    backButton.x = width - 170;
+    header.addChild(backButton);
+  }
+
+  private createArena(): void {
+    const { width, height } = this.getScreenSize();
+    const arenaHeight = height - 310;
+    const arena = new PIXI.Container();
+    arena.y = 90;
+    this.container.addChild(arena);
+
+    // Same layout as the battle: opponent top left, player bottom right
+    this.opponentPanel = new CombatantPanel();
+    this.opponentPanel.x = 40;
+    this.opponentPanel.y = 10;
+    arena.addChild(this.opponentPanel);
+
+    this.playerPanel = new CombatantPanel();
+    this.playerPanel.x = width - CombatantPanel.WIDTH - 40;
+    this.playerPanel.y = Math.max(arenaHeight - CombatantPanel.HEIGHT, CombatantPanel.HEIGHT + 20);
+    arena.addChild(this.playerPanel);
+  }
+
+  private createLog(): void {
+    const { width, height } = this.getScreenSize();
+    const logWidth = width * 0.6 - 30;
+    const logContainer = new PIXI.Container();
+    logContainer.y = height - 200;
+    this.container.addChild(logContainer);
+
+    const logBg = new PIXI.Graphics();
+    logBg.rect(20, 0, logWidth, 180);
+    logBg.fill({ color: 0x2a2a3e });
+    logBg.stroke({ color: GAME_CONFIG.COLORS.PRIMARY, width: 3 });
+    logContainer.addChild(logBg);
+
+    this.logText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        lineHeight: 28,
+        wordWrap: true,
+        wordWrapWidth: logWidth - 30,
+      },
+    });
+    this.logText.x = 35;
+    this.logText.y = 15;
+    logContainer.addChild(this.logText);
+  }
+
+  /**
+   * 2x2 playback controls
+   */
+  private createControls(): void {
+    const { width, height } = this.getScreenSize();
+    this.controlsContainer.x = width * 0.6 + 10;
+    this.controlsContainer.y = height - 200;
+    this.container.addChild(this.controlsContainer);
+
+    const areaWidth = width * 0.4 - 30;
+    const buttonWidth = (areaWidth - 10) / 2;
+    const buttonHeight = 85;
+
+    this.playButton = new Button({
+      text: 'PAUSE',
+      width: buttonWidth,
+      height: buttonHeight,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.SUCCESS,
+      onClick: () => {
+        this.replay?.togglePlay();
+        this.renderFrame();
+      },
+    });
+
+    const stepButton = new Button({
+      text: 'STEP',
+      width: buttonWidth,
+      height: buttonHeight,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.PRIMARY,
+      onClick: () => {
+        this.replay?.stepForward();
+        this.renderFrame();
+      },
+    });
+
+    this.speedButton = new Button({
+      text: `SPEED ${BATTLE_CONFIG.REPLAY_SPEEDS[0]}x`,
+      width: buttonWidth,
+      height: buttonHeight,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.WARNING,
+      onClick: () => {
+        this.replay?.cycleSpeed();
+        this.renderFrame();
+      },
+    });
+
+    const restartButton = new Button({
+      text: 'RESTART',
+      width: buttonWidth,
+      height: buttonHeight,
+      fontSize: 14,
+      backgroundColor: GAME_CONFIG.COLORS.DANGER,
+      onClick: () => {
+        this.replay?.restart();
+        this.renderFrame();
+      },
+    });
+
+    [this.playButton, stepButton, this.speedButton, restartButton].forEach((button, index) => {
+      button.x = (index % 2) * (buttonWidth + 10);
+      button.y = Math.floor(index / 2) * (buttonHeight + 10);
+      this.controlsContainer.addChild(button);
+    });
+  }
+
+  /**
+   * Sync the UI with the replay position
+   */
+  private renderFrame(): void {
+    if (!this.replay || this.container.destroyed) return;
+
+    const frame = this.replay.getFrame();
+    const player = this.playerSide === 'player1' ? frame.player1 : frame.player2;
+    const opponent = this.playerSide === 'player1' ? frame.player2 : frame.player1;
+
+    this.playerPanel.setCombatant(player);
+    this.opponentPanel.setCombatant(opponent);
+
+    const visible = frame.entries.slice(-BATTLE_CONFIG.LOG_VISIBLE_ENTRIES);
+    this.logText.text = visible.map(entry => entry.message).join('\n');
+
+    this.progressText.text = this.replay.isAtEnd()
+      ? `Step ${frame.step}/${frame.totalSteps} - ${this.getOutcome(this.replay.getBattle())}`
+      : `Step ${frame.step}/${frame.totalSteps}`;
+    this.playButton.setText(this.replay.isPlaying() ? 'PAUSE' : 'PLAY');
+    this.speedButton.setText(`SPEED ${this.replay.getSpeed()}x`);
+  }
+
+  private getOutcome(battle: BattleState): string {
+    if (battle.winner_id === null) {
+      return 'No winner';
+    }
+    const winner = battle.player1.user_id === battle.winner_id ? battle.player1 : battle.player2;
+    return `${winner.username} wins!`;
+  }
+
+  /**
+   * Show the battle from the logged-in player's side when they took part
+   */
+  private resolvePlayerSide(state: BattleState): 'player1' | 'player2' {
+    const userId = usePlayerStore.getState().profile?.user_id ?? useAuthStore.getState().user?.id;
+    if (userId !== undefined && state.player2.user_id === userId) {
+      return 'player2';
+    }
+    return 'player1';
+  }
+
+  update(deltaTime: number): void {
+    // Playback stops itself on the last entry, which still renders here
+    if (this.replay?.update(deltaTime)) {
+      this.renderFrame();
+    }
+  }
+
+  async unload(): Promise<void> {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    this.replay = null;
+    useBattleStore.getState().clearReplay();
+
+    await super.unload();
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Training Battle Scene
+ *
+ * Training Grounds battle against a dummy.
+ * Runs entirely on the client via TrainingBattleEngine, so it works offline.
+ */
+
+import { BattleScene } from './BattleScene';
+import type { BattleType } from '../api/types';
+
+export class TrainingBattleScene extends BattleScene {
+  protected battleType: BattleType = 'training';
+}
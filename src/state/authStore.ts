@@ -5,11 +5,15 @@
  * - Login/Register/Logout actions
  * - User data
  * - Token persistence
+ * - Session expiry (the server rejected the token mid-game)
  * - Loading and error states
  */
 
 import { create } from 'zustand';
+import { apiClient } from '../api/ApiClient';
 import { authService } from '../api/AuthService';
+import { wsManager } from '../api/WebSocketManager';
+import { useSyncQueueStore } from './syncQueueStore';
 import type { User, LoginRequest, RegisterRequest } from '../api/types';
 
 interface AuthState {
@@ -17,6 +21,7 @@ interface AuthState {
   token: string | null;
   user: User | null;
   isAuthenticated: boolean;
+  sessionExpired: boolean; // Signed out by a 401, until the next login
   isLoading: boolean;
   error: string | null;
 
@@ -26,13 +31,15 @@ interface AuthState {
   logout: () => Promise<void>;
   clearError: () => void;
   loadTokenFromStorage: () => void;
+  handleSessionExpired: () => void;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   // Initial State
   token: null,
   user: null,
   isAuthenticated: false,
+  sessionExpired: false,
   isLoading: false,
   error: null,
 
@@ -47,9 +54,12 @@ export const useAuthStore = create<AuthState>((set) => ({
         user: response.user,
         token: response.token,
         isAuthenticated: true,
+        sessionExpired: false,
         isLoading: false,
         error: null,
       });
+      // Send what was queued while signed out
+      useSyncQueueStore.getState().flush();
     } catch (error: any) {
       set({
         error: error.message || 'Login failed',
@@ -72,9 +82,11 @@ export const useAuthStore = create<AuthState>((set) => ({
         user: response.user,
         token: response.token,
         isAuthenticated: true,
+        sessionExpired: false,
         isLoading: false,
         error: null,
       });
+      useSyncQueueStore.getState().flush();
     } catch (error: any) {
       set({
         error: error.message || 'Registration failed',
@@ -87,21 +99,24 @@ export const useAuthStore = create<AuthState>((set) => ({
     }
   },
 
-  // Logout Action
+  // Logout Action (signed out locally first, so a 401 from the server isn't taken as an expiry)
   logout: async () => {
-    try {
-      await authService.logout();
-    } catch (error) {
-      console.error('Logout API call failed:', error);
-      // Continue with local logout even if API fails
-    }
-
     set({
       user: null,
       token: null,
       isAuthenticated: false,
+      sessionExpired: false,
       error: null,
     });
+    // Channels were authorized with this user's token
+    wsManager.disconnect();
+
+    try {
+      await authService.logout();
+    } catch (error) {
+      console.error('Logout API call failed:', error);
+      // Continue with local logout even if API fails
+    }
   },
 
   // Clear Error
@@ -117,4 +132,17 @@ export const useAuthStore = create<AuthState>((set) => ({
       // Note: We don't have user data yet, will fetch on scene load
     }
   },
+
+  // The token was rejected - keep the user (their saved quiz attempt is
+  // checked against it) but require a new login
+  handleSessionExpired: () => {
+    if (!get().isAuthenticated) return;
+
+    console.warn('[Auth] Session expired');
+    set({ token: null, isAuthenticated: false, sessionExpired: true });
+    wsManager.disconnect();
+  },
 }));
+
+// ApiClient has already cleared the token
+apiClient.onUnauthorized(() => useAuthStore.getState().handleSessionExpired());
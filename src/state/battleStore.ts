@@ -0,0 +1,350 @@
+/**
+ * Battle State Store (Zustand)
+ *
+ * Manages the active battle:
+ * - Battle state from the server
+ * - Whose turn it is
+ * - Battle log
+ * - Start/move/forfeit actions
+ * - Offline training battles (BattleType 'training') run locally
+ * - The completed battle picked for replay
+ * - The finished battle's result (rewards screen) and wild Siblon catching
+ */
+
+import { create } from 'zustand';
+import { battleService } from '../api/BattleService';
+import { usePlayerStore } from './playerStore';
+import { useAuthStore } from './authStore';
+import {
+  TrainingBattleEngine,
+  createCombatantFromSiblon,
+  createTrainingDummy,
+} from '../systems/TrainingBattleEngine';
+import type {
+  BattleLogEntry,
+  BattleState,
+  BattleType,
+  CatchSiblonResponse,
+  StartBattleRequest,
+} from '../api/types';
+
+export interface BattleResult {
+  battle: BattleState;
+  battleType: BattleType;
+  playerSide: 'player1' | 'player2';
+  participantId: number | null; // The player's Siblon that fought
+}
+
+interface BattleStoreState {
+  // State
+  battle: BattleState | null;
+  trainingEngine: TrainingBattleEngine | null;
+  currentTurn: number;
+  turnPlayerId: number | null;
+  log: BattleLogEntry[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  replayBattleId: string | null;
+  replay: BattleState | null;
+  result: BattleResult | null;
+
+  // Actions
+  startBattle: (request: StartBattleRequest, seed?: number) => Promise<void>;
+  joinBattle: (battleId: string) => Promise<void>;
+  refreshBattle: () => Promise<void>;
+  submitMove: (moveId: string) => Promise<void>;
+  forfeitBattle: () => Promise<void>;
+  setBattleState: (state: BattleState) => void;
+  addLogEntry: (entry: BattleLogEntry) => void;
+  clearBattle: () => void;
+  setReplayBattle: (battleId: string, battle?: BattleState) => void;
+  loadReplay: () => Promise<void>;
+  clearReplay: () => void;
+  setResult: (result: BattleResult) => void;
+  catchWildSiblon: (throwQuality: number) => Promise<CatchSiblonResponse>;
+  clearResult: () => void;
+}
+
+export const useBattleStore = create<BattleStoreState>((set, get) => ({
+  // Initial State
+  battle: null,
+  trainingEngine: null,
+  currentTurn: 0,
+  turnPlayerId: null,
+  log: [],
+  isLoading: false,
+  isSubmitting: false,
+  error: null,
+  replayBattleId: null,
+  replay: null,
+  result: null,
+
+  // Start a new battle (seed only applies to training battles)
+  startBattle: async (request: StartBattleRequest, seed?: number) => {
+    set({ isLoading: true, error: null, battle: null, trainingEngine: null, log: [] });
+
+    if (request.battle_type === 'training') {
+      try {
+        const engine = createTrainingEngine(request.player_siblon_id, seed);
+        set({ trainingEngine: engine, isLoading: false });
+        get().setBattleState(engine.getState());
+      } catch (error) {
+        set({
+          error: error instanceof Error ? error.message : 'Failed to start training battle',
+          isLoading: false,
+        });
+        throw error;
+      }
+      return;
+    }
+
+    try {
+      const response = await battleService.startBattle(request);
+
+      get().setBattleState({
+        ...response,
+        winner_id: null,
+        started_at: new Date().toISOString(),
+        completed_at: null,
+        battle_log: [],
+      });
+      set({ isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to start battle',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+
+  // Join a battle someone else started (PvP opponent)
+  joinBattle: async (battleId: string) => {
+    set({ isLoading: true, error: null, battle: null, trainingEngine: null, log: [] });
+    try {
+      const state = await battleService.getState(battleId);
+      get().setBattleState(state);
+      set({ isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to join battle',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+
+  // Refresh the active battle from the server
+  refreshBattle: async () => {
+    const { battle, trainingEngine } = get();
+    if (!battle) return;
+
+    if (trainingEngine) {
+      get().setBattleState(trainingEngine.getState());
+      return;
+    }
+
+    try {
+      const state = await battleService.getState(battle.battle_id);
+      get().setBattleState(state);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to refresh battle' });
+      throw error;
+    }
+  },
+
+  // Submit a move for the current turn
+  submitMove: async (moveId: string) => {
+    const { battle, trainingEngine, isSubmitting } = get();
+    if (!battle || isSubmitting) return;
+
+    set({ isSubmitting: true, error: null });
+    try {
+      const state = trainingEngine
+        ? trainingEngine.submitMove(moveId)
+        : await battleService.submitAction(battle.battle_id, { move_id: moveId });
+      get().setBattleState(state);
+      set({ isSubmitting: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to submit move',
+        isSubmitting: false,
+      });
+      throw error;
+    }
+  },
+
+  // Forfeit the active battle
+  forfeitBattle: async () => {
+    const { battle, trainingEngine } = get();
+    if (!battle) return;
+
+    set({ isSubmitting: true, error: null });
+    try {
+      const response = trainingEngine
+        ? trainingEngine.forfeit()
+        : await battleService.forfeit(battle.battle_id);
+      const forfeitEntry: BattleLogEntry = {
+        action: 'forfeit',
+        player_id: null,
+        message: response.message,
+      };
+
+      set({
+        battle: {
+          ...battle,
+          status: response.status,
+          winner_id: response.winner_id,
+          battle_log: [...battle.battle_log, forfeitEntry],
+        },
+        log: [...get().log, forfeitEntry],
+        isSubmitting: false,
+      });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to forfeit battle',
+        isSubmitting: false,
+      });
+      throw error;
+    }
+  },
+
+  // Replace battle state with the server's authoritative copy
+  setBattleState: (state: BattleState) => {
+    set({
+      battle: state,
+      currentTurn: state.current_turn,
+      turnPlayerId: state.turn_player_id,
+      // Keep local entries until the server starts returning a log
+      log: state.battle_log.length > 0 ? state.battle_log : get().log,
+    });
+  },
+
+  // Append a client-side log message
+  addLogEntry: (entry: BattleLogEntry) => {
+    set({ log: [...get().log, entry] });
+  },
+
+  // Clear All Battle Data (on leaving the battle)
+  clearBattle: () => {
+    set({
+      battle: null,
+      trainingEngine: null,
+      currentTurn: 0,
+      turnPlayerId: null,
+      log: [],
+      isLoading: false,
+      isSubmitting: false,
+      error: null,
+    });
+  },
+
+  // Pick a completed battle to replay (reuses the given or current battle's state if it has a full log)
+  setReplayBattle: (battleId: string, battle?: BattleState) => {
+    const known = battle ?? get().battle;
+    const canReuse = known !== null
+      && known.battle_id === battleId
+      && known.status !== 'active'
+      && known.battle_log.length > 0;
+
+    set({ replayBattleId: battleId, replay: canReuse ? known : null });
+  },
+
+  // Fetch the full state of the battle picked for replay
+  loadReplay: async () => {
+    const { replayBattleId, replay } = get();
+    if (!replayBattleId) {
+      throw new Error('No battle selected for replay.');
+    }
+    if (replay && replay.battle_id === replayBattleId) return;
+
+    if (replayBattleId.startsWith('training-')) {
+      throw new Error('Training battles can only be replayed right after they finish.');
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const state = await battleService.getState(replayBattleId);
+      if (state.status === 'active') {
+        throw new Error('This battle is still in progress.');
+      }
+      set({ replay: state, isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load replay',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+
+  // Forget the replayed battle
+  clearReplay: () => {
+    set({ replayBattleId: null, replay: null });
+  },
+
+  // Keep the finished battle around for the results screen
+  setResult: (result: BattleResult) => {
+    set({ result });
+  },
+
+  // Throw at the wild Siblon from the finished PvE battle
+  catchWildSiblon: async (throwQuality: number) => {
+    const { result } = get();
+    if (!result || !result.battle.rewards?.can_catch) {
+      throw new Error('There is nothing to catch.');
+    }
+
+    set({ isSubmitting: true, error: null });
+    try {
+      const response = await battleService.catchSiblon(result.battle.battle_id, {
+        throw_quality: Math.max(0, Math.min(1, throwQuality)),
+      });
+
+      // Only one throw per battle
+      set({
+        result: {
+          ...result,
+          battle: { ...result.battle, rewards: { ...result.battle.rewards, can_catch: false } },
+        },
+        isSubmitting: false,
+      });
+
+      if (response.caught) {
+        await usePlayerStore.getState().fetchSiblons();
+      }
+      return response;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to catch Siblon',
+        isSubmitting: false,
+      });
+      throw error;
+    }
+  },
+
+  // Forget the finished battle (on leaving the results screen)
+  clearResult: () => {
+    set({ result: null });
+  },
+}));
+
+/**
+ * Set up an offline training battle: the player's Siblon vs a dummy of the same level
+ */
+function createTrainingEngine(playerSiblonId: number, seed?: number): TrainingBattleEngine {
+  const { party, collection, profile } = usePlayerStore.getState();
+  const siblon = [...party, ...collection].find(s => s.id === playerSiblonId);
+  if (!siblon) {
+    throw new Error('That Siblon is not in your collection.');
+  }
+
+  const player = createCombatantFromSiblon(siblon, {
+    userId: profile?.user_id ?? useAuthStore.getState().user?.id ?? 0,
+    trainerName: profile?.trainer_name ?? 'You',
+  });
+  const dummy = createTrainingDummy(siblon.level);
+
+  return new TrainingBattleEngine(player, dummy, seed);
+}
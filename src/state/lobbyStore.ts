@@ -0,0 +1,456 @@
+/**
+ * PvP Lobby Store (Zustand)
+ *
+ * Manages the PvP lobby on the Reverb presence channel:
+ * - Classmates currently online
+ * - Sending, accepting, declining and cancelling challenges
+ * - Challenge timeouts
+ * - The agreed match, picked up by PvpBattleScene
+ *
+ * Challenges are client events (whispers) broadcast on the lobby channel;
+ * every client ignores the ones not addressed to it.
+ */
+
+import { create } from 'zustand';
+import { wsManager } from '../api/WebSocketManager';
+import { API_ENDPOINTS } from '../config/apiEndpoints';
+import { LOBBY_CONFIG, LOBBY_EVENTS } from '../config/constants';
+import { usePlayerStore } from './playerStore';
+import { useAuthStore } from './authStore';
+import type {
+  LobbyBattleStarted,
+  LobbyChallenge,
+  LobbyChallengeCancelled,
+  LobbyChallengeResponse,
+  PresenceMember,
+} from '../api/types';
+
+export type LobbyMatch =
+  | {
+    role: 'challenger'; // Starts the battle
+    challengeId: string;
+    opponentId: number;
+    siblonId: number;
+    opponentSiblonId: number | null;
+  }
+  | {
+    role: 'opponent'; // Joins the battle the challenger started
+    challengeId: string;
+    opponentId: number;
+    siblonId: number;
+    battleId: string;
+  };
+
+interface AcceptedChallenge {
+  challenge: LobbyChallenge;
+  startDeadline: number; // ms timestamp
+}
+
+interface LobbyStoreState {
+  // State
+  isJoined: boolean;
+  members: PresenceMember[]; // Everyone online except us
+  selectedSiblonId: number | null;
+  outgoingChallenge: LobbyChallenge | null;
+  incomingChallenges: LobbyChallenge[];
+  acceptedChallenge: AcceptedChallenge | null;
+  match: LobbyMatch | null;
+  notice: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  joinLobby: () => Promise<void>;
+  leaveLobby: () => void;
+  selectSiblon: (siblonId: number) => void;
+  sendChallenge: (userId: number) => void;
+  cancelChallenge: () => void;
+  acceptChallenge: (challengeId: string) => void;
+  declineChallenge: (challengeId: string) => void;
+  expireChallenges: (now?: number) => void;
+  announceBattle: (battleId: string) => void;
+  cancelMatch: () => void;
+  clearMatch: () => void;
+}
+
+const LOBBY_CHANNEL = `presence-${API_ENDPOINTS.websocket.lobby}`;
+
+// wsManager listeners while joined
+let removeListeners: Array<() => void> = [];
+
+function getMyUserId(): number | null {
+  return usePlayerStore.getState().profile?.user_id ?? useAuthStore.getState().user?.id ?? null;
+}
+
+function getMyName(): string {
+  return usePlayerStore.getState().profile?.trainer_name ?? useAuthStore.getState().user?.username ?? 'Trainer';
+}
+
+function getMemberName(members: PresenceMember[], userId: number): string {
+  return members.find(member => member.id === userId)?.info.name ?? 'Your opponent';
+}
+
+export const useLobbyStore = create<LobbyStoreState>((set, get) => {
+  const whisper = (event: string, data: unknown) => {
+    try {
+      wsManager.whisper(LOBBY_CHANNEL, event, data);
+    } catch (error) {
+      console.error('[LobbyStore] Failed to send lobby event:', error);
+    }
+  };
+
+  const handleMembers = (members: PresenceMember[]) => {
+    const myId = getMyUserId();
+    const others = members.filter(member => member.id !== myId);
+    const onlineIds = new Set(others.map(member => member.id));
+    const { outgoingChallenge, incomingChallenges, acceptedChallenge, members: previous } = get();
+
+    const updates: Partial<LobbyStoreState> = {
+      members: others,
+      incomingChallenges: incomingChallenges.filter(challenge => onlineIds.has(challenge.from_user_id)),
+    };
+
+    // Whoever we were dealing with left the lobby
+    if (outgoingChallenge && !onlineIds.has(outgoingChallenge.to_user_id)) {
+      updates.outgoingChallenge = null;
+      updates.notice = `${getMemberName(previous, outgoingChallenge.to_user_id)} left the lobby.`;
+    }
+    if (acceptedChallenge && !onlineIds.has(acceptedChallenge.challenge.from_user_id)) {
+      updates.acceptedChallenge = null;
+      updates.notice = `${acceptedChallenge.challenge.from_name} left the lobby.`;
+    }
+
+    set(updates);
+  };
+
+  const handleClientEvent = (event: string, data: unknown) => {
+    const myId = getMyUserId();
+    const { to_user_id: toUserId } = data as { to_user_id?: number };
+    if (myId === null || toUserId !== myId) return;
+
+    switch (event) {
+      case LOBBY_EVENTS.CHALLENGE: {
+        const challenge = data as LobbyChallenge;
+        // Use our own clock so skew between classmates can't stretch the window
+        const localExpiry = new Date(Date.now() + LOBBY_CONFIG.CHALLENGE_TIMEOUT * 1000).toISOString();
+        set({
+          incomingChallenges: [
+            ...get().incomingChallenges.filter(existing => existing.from_user_id !== challenge.from_user_id),
+            { ...challenge, expires_at: localExpiry },
+          ],
+        });
+        break;
+      }
+
+      case LOBBY_EVENTS.RESPONSE: {
+        const response = data as LobbyChallengeResponse;
+        const { outgoingChallenge, selectedSiblonId, members } = get();
+        if (!outgoingChallenge || outgoingChallenge.challenge_id !== response.challenge_id) return;
+
+        const name = getMemberName(members, response.from_user_id);
+        if (!response.accepted || selectedSiblonId === null) {
+          set({ outgoingChallenge: null, notice: `${name} declined your challenge.` });
+          return;
+        }
+
+        set({
+          outgoingChallenge: null,
+          notice: `${name} accepted! Starting battle...`,
+          match: {
+            role: 'challenger',
+            challengeId: response.challenge_id,
+            opponentId: response.from_user_id,
+            siblonId: selectedSiblonId,
+            opponentSiblonId: response.siblon_id,
+          },
+        });
+        break;
+      }
+
+      case LOBBY_EVENTS.CANCELLED: {
+        const cancelled = data as LobbyChallengeCancelled;
+        const { incomingChallenges, acceptedChallenge } = get();
+        const challenge = incomingChallenges.find(existing => existing.challenge_id === cancelled.challenge_id)
+          ?? (acceptedChallenge?.challenge.challenge_id === cancelled.challenge_id ? acceptedChallenge.challenge : null);
+        if (!challenge) return;
+
+        set({
+          incomingChallenges: incomingChallenges.filter(existing => existing.challenge_id !== cancelled.challenge_id),
+          acceptedChallenge: acceptedChallenge?.challenge === challenge ? null : acceptedChallenge,
+          notice: cancelled.reason === 'timeout'
+            ? `${challenge.from_name}'s challenge timed out.`
+            : `${challenge.from_name} cancelled the challenge.`,
+        });
+        break;
+      }
+
+      case LOBBY_EVENTS.BATTLE_STARTED: {
+        const started = data as LobbyBattleStarted;
+        const { acceptedChallenge, selectedSiblonId } = get();
+        if (!acceptedChallenge || acceptedChallenge.challenge.challenge_id !== started.challenge_id) return;
+        if (selectedSiblonId === null) return;
+
+        set({
+          acceptedChallenge: null,
+          match: {
+            role: 'opponent',
+            challengeId: started.challenge_id,
+            opponentId: started.from_user_id,
+            siblonId: selectedSiblonId,
+            battleId: started.battle_id,
+          },
+        });
+        break;
+      }
+    }
+  };
+
+  return {
+    // Initial State
+    isJoined: false,
+    members: [],
+    selectedSiblonId: null,
+    outgoingChallenge: null,
+    incomingChallenges: [],
+    acceptedChallenge: null,
+    match: null,
+    notice: null,
+    isLoading: false,
+    error: null,
+
+    // Join the lobby presence channel
+    joinLobby: async () => {
+      if (get().isJoined) return;
+
+      set({ isLoading: true, error: null, notice: null, match: null });
+
+      // Default to the lead party Siblon
+      const playerStore = usePlayerStore.getState();
+      if (playerStore.party.length === 0) {
+        await playerStore.fetchSiblons();
+      }
+      const lead = usePlayerStore.getState().party[0];
+      if (get().selectedSiblonId === null && lead) {
+        set({ selectedSiblonId: lead.id });
+      }
+
+      removeListeners.forEach(remove => remove());
+      removeListeners = [
+        wsManager.on('membersChanged', ({ channel, members }) => {
+          if (channel === LOBBY_CHANNEL) handleMembers(members);
+        }),
+        wsManager.on('clientEvent', ({ channel, event, data }) => {
+          if (channel === LOBBY_CHANNEL) handleClientEvent(event, data);
+        }),
+      ];
+
+      try {
+        const members = await wsManager.joinPresenceChannel(API_ENDPOINTS.websocket.lobby);
+        handleMembers(members);
+        set({ isJoined: true, isLoading: false });
+      } catch (error) {
+        removeListeners.forEach(remove => remove());
+        removeListeners = [];
+        set({
+          error: error instanceof Error ? error.message : 'Failed to join the lobby',
+          isLoading: false,
+        });
+        throw error;
+      }
+    },
+
+    // Leave the lobby (cancels anything still pending)
+    leaveLobby: () => {
+      const { outgoingChallenge, incomingChallenges, isJoined } = get();
+
+      if (isJoined) {
+        if (outgoingChallenge) {
+          get().cancelChallenge();
+        }
+        incomingChallenges.forEach(challenge => get().declineChallenge(challenge.challenge_id));
+        wsManager.leavePresenceChannel(API_ENDPOINTS.websocket.lobby);
+      }
+
+      removeListeners.forEach(remove => remove());
+      removeListeners = [];
+
+      set({
+        isJoined: false,
+        members: [],
+        outgoingChallenge: null,
+        incomingChallenges: [],
+        acceptedChallenge: null,
+        isLoading: false,
+      });
+    },
+
+    // Pick the Siblon to battle with
+    selectSiblon: (siblonId: number) => {
+      set({ selectedSiblonId: siblonId });
+    },
+
+    // Challenge a classmate (one outgoing challenge at a time)
+    sendChallenge: (userId: number) => {
+      const myId = getMyUserId();
+      const { outgoingChallenge, acceptedChallenge, selectedSiblonId } = get();
+      if (myId === null || outgoingChallenge || acceptedChallenge) return;
+
+      if (selectedSiblonId === null) {
+        set({ notice: 'Pick a Siblon before challenging someone.' });
+        return;
+      }
+
+      const challenge: LobbyChallenge = {
+        challenge_id: `${myId}-${Date.now()}`,
+        from_user_id: myId,
+        from_name: getMyName(),
+        to_user_id: userId,
+        expires_at: new Date(Date.now() + LOBBY_CONFIG.CHALLENGE_TIMEOUT * 1000).toISOString(),
+      };
+
+      whisper(LOBBY_EVENTS.CHALLENGE, challenge);
+      set({ outgoingChallenge: challenge, notice: null });
+    },
+
+    // Withdraw our outgoing challenge
+    cancelChallenge: () => {
+      const { outgoingChallenge } = get();
+      if (!outgoingChallenge) return;
+
+      const cancelled: LobbyChallengeCancelled = {
+        challenge_id: outgoingChallenge.challenge_id,
+        from_user_id: outgoingChallenge.from_user_id,
+        to_user_id: outgoingChallenge.to_user_id,
+        reason: 'cancelled',
+      };
+      whisper(LOBBY_EVENTS.CANCELLED, cancelled);
+      set({ outgoingChallenge: null });
+    },
+
+    // Accept a challenge (declines every other one)
+    acceptChallenge: (challengeId: string) => {
+      const myId = getMyUserId();
+      const { incomingChallenges, selectedSiblonId, outgoingChallenge } = get();
+      const challenge = incomingChallenges.find(existing => existing.challenge_id === challengeId);
+      if (myId === null || !challenge) return;
+
+      if (selectedSiblonId === null) {
+        set({ notice: 'Pick a Siblon before accepting a challenge.' });
+        return;
+      }
+
+      if (outgoingChallenge) {
+        get().cancelChallenge();
+      }
+      incomingChallenges
+        .filter(other => other.challenge_id !== challengeId)
+        .forEach(other => get().declineChallenge(other.challenge_id));
+
+      const response: LobbyChallengeResponse = {
+        challenge_id: challengeId,
+        from_user_id: myId,
+        to_user_id: challenge.from_user_id,
+        accepted: true,
+        siblon_id: selectedSiblonId,
+      };
+      whisper(LOBBY_EVENTS.RESPONSE, response);
+
+      set({
+        incomingChallenges: [],
+        acceptedChallenge: {
+          challenge,
+          startDeadline: Date.now() + LOBBY_CONFIG.START_TIMEOUT * 1000,
+        },
+        notice: `Waiting for ${challenge.from_name} to start the battle...`,
+      });
+    },
+
+    // Turn a challenge down
+    declineChallenge: (challengeId: string) => {
+      const myId = getMyUserId();
+      const { incomingChallenges } = get();
+      const challenge = incomingChallenges.find(existing => existing.challenge_id === challengeId);
+      if (myId === null || !challenge) return;
+
+      const response: LobbyChallengeResponse = {
+        challenge_id: challengeId,
+        from_user_id: myId,
+        to_user_id: challenge.from_user_id,
+        accepted: false,
+        siblon_id: null,
+      };
+      whisper(LOBBY_EVENTS.RESPONSE, response);
+
+      set({
+        incomingChallenges: get().incomingChallenges.filter(existing => existing.challenge_id !== challengeId),
+      });
+    },
+
+    // Drop challenges nobody answered in time
+    expireChallenges: (now: number = Date.now()) => {
+      const { outgoingChallenge, incomingChallenges, acceptedChallenge, members } = get();
+      const updates: Partial<LobbyStoreState> = {};
+
+      if (outgoingChallenge && Date.parse(outgoingChallenge.expires_at) <= now) {
+        const cancelled: LobbyChallengeCancelled = {
+          challenge_id: outgoingChallenge.challenge_id,
+          from_user_id: outgoingChallenge.from_user_id,
+          to_user_id: outgoingChallenge.to_user_id,
+          reason: 'timeout',
+        };
+        whisper(LOBBY_EVENTS.CANCELLED, cancelled);
+        updates.outgoingChallenge = null;
+        updates.notice = `${getMemberName(members, outgoingChallenge.to_user_id)} didn't answer your challenge.`;
+      }
+
+      const stillValid = incomingChallenges.filter(challenge => Date.parse(challenge.expires_at) > now);
+      if (stillValid.length !== incomingChallenges.length) {
+        updates.incomingChallenges = stillValid;
+      }
+
+      if (acceptedChallenge && acceptedChallenge.startDeadline <= now) {
+        updates.acceptedChallenge = null;
+        updates.notice = `The battle with ${acceptedChallenge.challenge.from_name} didn't start. Try again!`;
+      }
+
+      if (Object.keys(updates).length > 0) {
+        set(updates);
+      }
+    },
+
+    // Tell the opponent which battle to join (challenger only)
+    announceBattle: (battleId: string) => {
+      const myId = getMyUserId();
+      const { match } = get();
+      if (myId === null || !match || match.role !== 'challenger') return;
+
+      const started: LobbyBattleStarted = {
+        challenge_id: match.challengeId,
+        from_user_id: myId,
+        to_user_id: match.opponentId,
+        battle_id: battleId,
+      };
+      whisper(LOBBY_EVENTS.BATTLE_STARTED, started);
+    },
+
+    // Tell the opponent the battle won't start after all (challenger only)
+    cancelMatch: () => {
+      const myId = getMyUserId();
+      const { match } = get();
+      if (myId === null || !match || match.role !== 'challenger') return;
+
+      const cancelled: LobbyChallengeCancelled = {
+        challenge_id: match.challengeId,
+        from_user_id: myId,
+        to_user_id: match.opponentId,
+        reason: 'cancelled',
+      };
+      whisper(LOBBY_EVENTS.CANCELLED, cancelled);
+    },
+
+    // Forget the match once the battle scene has it
+    clearMatch: () => {
+      set({ match: null, notice: null });
+    },
+  };
+});
@@ -5,6 +5,7 @@
  * - Player profile (level, XP, coins)
  * - Siblon party and collection
  * - XP/Coin rewards
+ * - Siblon XP gains from battles
  * - Profile fetching
  */
 
@@ -12,7 +13,8 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { playerService } from '../api/PlayerService';
 import { STORAGE_KEYS, GAME_CONFIG } from '../config/constants';
-import type { PlayerProfile, PlayerSiblon } from '../api/types';
+import { addSiblonExperience } from '../systems/BattleRewards';
+import type { PlayerProfile, PlayerSiblon, SiblonXpGain } from '../api/types';
 
 interface PlayerState {
   // State
@@ -28,6 +30,7 @@ interface PlayerState {
   setProfile: (profile: PlayerProfile) => void;
   addExperience: (xp: number) => void;
   addCoins: (coins: number) => void;
+  applySiblonExperience: (gains: SiblonXpGain[]) => void;
   clearPlayerData: () => void;
 }
 
@@ -110,6 +113,23 @@ export const usePlayerStore = create<PlayerState>()(
         });
       },
 
+      // Add XP to Siblons (party and collection copies), levelling them up locally
+      applySiblonExperience: (gains: SiblonXpGain[]) => {
+        const gainById = new Map(gains.map(gain => [gain.siblon_id, gain.xp_gained]));
+        const applyGain = (siblon: PlayerSiblon): PlayerSiblon => {
+          const xpGained = gainById.get(siblon.id);
+          if (!xpGained) return siblon;
+
+          const progress = addSiblonExperience(siblon.level, siblon.experience_points, xpGained);
+          return { ...siblon, level: progress.level, experience_points: progress.experience_points };
+        };
+
+        set({
+          party: get().party.map(applyGain),
+          collection: get().collection.map(applyGain),
+        });
+      },
+
       // Clear All Player Data (on logout)
       clearPlayerData: () => {
         set({
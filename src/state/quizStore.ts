@@ -0,0 +1,263 @@
+/**
+ * Quiz Store (Zustand)
+ *
+ * Manages the quiz browser and the quiz being taken:
+ * - Available quizzes from the API
+ * - Subject and difficulty filters
+ * - The active attempt (answers, position, timing), persisted so a reload
+ *   or dropped connection can resume it instead of using up an attempt
+ * - Attempts used and best score per quiz, for the retry limit (max_attempts)
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { quizService } from '../api/QuizService';
+import { QuizTimer } from '../systems/QuizTimer';
+import { STORAGE_KEYS } from '../config/constants';
+import { usePlayerStore } from './playerStore';
+import { useAuthStore } from './authStore';
+import type { DifficultyLevel, Quiz, SubmitQuizResponse } from '../api/types';
+
+export interface ActiveQuizAttempt {
+  quizId: number;
+  quizTitle: string;
+  attemptId: number;
+  userId: number | null; // Student who started it (shared devices)
+  startedAt: string; // ISO 8601, server clock
+  expiresAt: string | null; // ISO 8601, server clock (null = untimed)
+  localStartedAt: number; // ms on this device when the attempt started
+  timeLimitMinutes: number | null;
+  currentQuestionIndex: number;
+  selectedAnswers: Record<number, number[]>; // questionId -> choice IDs
+  textAnswers: Record<number, string>; // questionId -> typed answer (fill_blank)
+}
+
+export interface QuizAttemptHistory {
+  attemptsUsed: number;
+  bestPercentage: number | null; // null until an attempt is submitted
+  passed: boolean; // Any attempt passed
+}
+
+export type QuizAttemptProgress = Pick<
+  ActiveQuizAttempt,
+  'currentQuestionIndex' | 'selectedAnswers' | 'textAnswers'
+>;
+
+interface QuizStoreState {
+  // State
+  quizzes: Quiz[];
+  subjectFilter: string | null; // null = all subjects
+  difficultyFilter: DifficultyLevel | null; // null = all difficulties
+  activeAttempt: ActiveQuizAttempt | null;
+  hasOfferedResume: boolean; // Resume prompt shown this session
+  attemptHistory: Record<string, QuizAttemptHistory>; // "userId:quizId" -> attempts and best score
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchQuizzes: () => Promise<void>;
+  setSubjectFilter: (subject: string | null) => void;
+  setDifficultyFilter: (difficulty: DifficultyLevel | null) => void;
+  startAttempt: (attempt: Omit<ActiveQuizAttempt, 'userId'>) => void;
+  saveAttemptProgress: (progress: QuizAttemptProgress) => void;
+  getResumableAttempt: (quizId?: number) => ActiveQuizAttempt | null;
+  clearAttempt: () => void;
+  markResumeOffered: () => void;
+  recordAttemptResult: (quizId: number, percentage: number, passed: boolean) => void;
+  markAttemptsExhausted: (quizId: number, maxAttempts: number | null) => void;
+  getAttemptHistory: (quizId: number) => QuizAttemptHistory;
+}
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Subjects present in the quiz list, alphabetically
+ */
+export function getQuizSubjects(quizzes: Quiz[]): string[] {
+  return [...new Set(quizzes.map(quiz => quiz.subject))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Quizzes matching the filters, featured ones first
+ */
+export function filterQuizzes(
+  quizzes: Quiz[],
+  subject: string | null,
+  difficulty: DifficultyLevel | null
+): Quiz[] {
+  return quizzes
+    .filter(quiz => subject === null || quiz.subject === subject)
+    .filter(quiz => difficulty === null || quiz.difficulty_level === difficulty)
+    .sort((a, b) => Number(b.is_featured) - Number(a.is_featured));
+}
+
+/**
+ * Countdown for a saved attempt, on the same local deadline as when it started
+ */
+export function createAttemptTimer(attempt: ActiveQuizAttempt): QuizTimer {
+  return new QuizTimer(
+    { started_at: attempt.startedAt, expires_at: attempt.expiresAt },
+    attempt.timeLimitMinutes,
+    attempt.localStartedAt
+  );
+}
+
+/**
+ * Attempts left under the quiz's limit (null = unlimited)
+ */
+export function getAttemptsRemaining(maxAttempts: number | null, history: QuizAttemptHistory): number | null {
+  if (maxAttempts === null) return null;
+  return Math.max(0, maxAttempts - history.attemptsUsed);
+}
+
+const EMPTY_HISTORY: QuizAttemptHistory = { attemptsUsed: 0, bestPercentage: null, passed: false };
+
+// The signed-in user first: right after a login the profile may still be the previous student's
+export function getCurrentUserId(): number | null {
+  return useAuthStore.getState().user?.id ?? usePlayerStore.getState().profile?.user_id ?? null;
+}
+
+// History is kept per student, since devices can be shared
+function getHistoryKey(quizId: number): string {
+  return `${getCurrentUserId() ?? 'guest'}:${quizId}`;
+}
+
+/**
+ * Record a submitted attempt's score and give the player its rewards
+ */
+export function applyQuizResults(quizId: number, results: SubmitQuizResponse): void {
+  useQuizStore.getState().recordAttemptResult(quizId, results.percentage, results.passed);
+
+  const playerStore = usePlayerStore.getState();
+  if (results.rewards.experience_points > 0) {
+    playerStore.addExperience(results.rewards.experience_points);
+  }
+  if (results.rewards.coins > 0) {
+    playerStore.addCoins(results.rewards.coins);
+  }
+}
+
+export const useQuizStore = create<QuizStoreState>()(
+  persist(
+    (set, get) => ({
+      // Initial State
+      quizzes: [],
+      subjectFilter: null,
+      difficultyFilter: null,
+      activeAttempt: null,
+      hasOfferedResume: false,
+      attemptHistory: {},
+      isLoading: false,
+      error: null,
+
+      // Fetch available quizzes
+      fetchQuizzes: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await quizService.getQuizzes();
+          set({ quizzes: response.quizzes, isLoading: false });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to load quizzes';
+          set({ isLoading: false, error: errorMessage });
+          throw error;
+        }
+      },
+
+      setSubjectFilter: (subject: string | null) => {
+        set({ subjectFilter: subject });
+      },
+
+      setDifficultyFilter: (difficulty: DifficultyLevel | null) => {
+        set({ difficultyFilter: difficulty });
+      },
+
+      // Remember a newly started attempt (replaces any older one) and count it
+      startAttempt: (attempt) => {
+        const key = getHistoryKey(attempt.quizId);
+        const history = get().attemptHistory[key] ?? EMPTY_HISTORY;
+
+        set({
+          activeAttempt: { ...attempt, userId: getCurrentUserId() },
+          attemptHistory: {
+            ...get().attemptHistory,
+            [key]: { ...history, attemptsUsed: history.attemptsUsed + 1 },
+          },
+        });
+      },
+
+      // Save answers and position after every change
+      saveAttemptProgress: (progress: QuizAttemptProgress) => {
+        const { activeAttempt } = get();
+        if (!activeAttempt) return;
+
+        set({ activeAttempt: { ...activeAttempt, ...progress } });
+      },
+
+      // The saved attempt if this student can still finish it (expired attempts are dropped)
+      getResumableAttempt: (quizId?: number) => {
+        const { activeAttempt } = get();
+        if (!activeAttempt) return null;
+
+        if (createAttemptTimer(activeAttempt).isExpired()) {
+          set({ activeAttempt: null });
+          return null;
+        }
+        if (activeAttempt.userId !== getCurrentUserId()) return null;
+        if (quizId !== undefined && activeAttempt.quizId !== quizId) return null;
+
+        return activeAttempt;
+      },
+
+      clearAttempt: () => {
+        set({ activeAttempt: null });
+      },
+
+      markResumeOffered: () => {
+        set({ hasOfferedResume: true });
+      },
+
+      // Keep the best score of all submitted attempts
+      recordAttemptResult: (quizId: number, percentage: number, passed: boolean) => {
+        const key = getHistoryKey(quizId);
+        const history = get().attemptHistory[key] ?? EMPTY_HISTORY;
+
+        set({
+          attemptHistory: {
+            ...get().attemptHistory,
+            [key]: {
+              attemptsUsed: Math.max(history.attemptsUsed, 1),
+              bestPercentage: Math.max(history.bestPercentage ?? 0, percentage),
+              passed: history.passed || passed,
+            },
+          },
+        });
+      },
+
+      // The server refused another attempt - attempts made elsewhere weren't counted here
+      markAttemptsExhausted: (quizId: number, maxAttempts: number | null) => {
+        const key = getHistoryKey(quizId);
+        const history = get().attemptHistory[key] ?? EMPTY_HISTORY;
+        if (maxAttempts === null || history.attemptsUsed >= maxAttempts) return;
+
+        set({
+          attemptHistory: {
+            ...get().attemptHistory,
+            [key]: { ...history, attemptsUsed: maxAttempts },
+          },
+        });
+      },
+
+      getAttemptHistory: (quizId: number) => {
+        return get().attemptHistory[getHistoryKey(quizId)] ?? EMPTY_HISTORY;
+      },
+    }),
+    {
+      name: STORAGE_KEYS.QUIZ_ATTEMPT,
+      partialize: (state) => ({
+        activeAttempt: state.activeAttempt, // Survives a reload so it can be resumed
+        attemptHistory: state.attemptHistory,
+      }),
+    }
+  )
+);
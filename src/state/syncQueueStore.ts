@@ -0,0 +1,151 @@
+/**
+ * Sync Queue Store (Zustand)
+ *
+ * Outbound queue for reward-granting requests that couldn't reach the server:
+ * - Quiz submissions made with no connection (or while the server was down)
+ * - Saved to localStorage, so closing the tab doesn't lose the answers
+ * - Flushed when connectivity returns; rewards are applied once the server accepts
+ *
+ * Only requests that failed to get a response are queued. If one did reach the
+ * server before the connection dropped, the replay is refused (e.g. "already
+ * submitted") and dropped rather than applied twice.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { isTransientError } from '../api/ApiClient';
+import { quizService } from '../api/QuizService';
+import { ApiError } from '../api/types';
+import { STORAGE_KEYS } from '../config/constants';
+import { useAuthStore } from './authStore';
+import { applyQuizResults, getCurrentUserId } from './quizStore';
+import type { Answer } from '../api/types';
+
+interface QueuedQuizSubmission {
+  kind: 'quiz_submit';
+  quizId: number;
+  attemptId: number;
+  answers: Answer[];
+}
+
+export type QueuedRequest = QueuedQuizSubmission & {
+  id: string; // One entry per attempt
+  userId: number | null; // Student who made it (shared devices)
+  label: string; // Shown to the student, e.g. the quiz title
+  queuedAt: number; // ms on this device
+  tries: number; // Failed sync attempts so far
+};
+
+interface SyncQueueState {
+  // State
+  queue: QueuedRequest[];
+  isFlushing: boolean;
+  error: string | null; // Last sync failure
+
+  // Actions
+  enqueueQuizSubmission: (submission: Omit<QueuedQuizSubmission, 'kind'> & { label: string }) => void;
+  flush: () => Promise<void>;
+  getPendingCount: () => number;
+}
+
+/**
+ * Send one queued request
+ * @returns Applies what it earned (run once it's off the queue)
+ */
+async function sendQueuedRequest(request: QueuedRequest): Promise<() => void> {
+  switch (request.kind) {
+    case 'quiz_submit': {
+      const results = await quizService.submitQuiz(request.attemptId, request.answers);
+      return () => applyQuizResults(request.quizId, results);
+    }
+  }
+}
+
+export const useSyncQueueStore = create<SyncQueueState>()(
+  persist(
+    (set, get) => ({
+      // Initial State
+      queue: [],
+      isFlushing: false,
+      error: null,
+
+      // Queue answers that couldn't be submitted (replaces an older copy of the same attempt)
+      enqueueQuizSubmission: ({ label, ...submission }) => {
+        const id = `quiz-attempt-${submission.attemptId}`;
+
+        set({
+          queue: [
+            ...get().queue.filter(request => request.id !== id),
+            {
+              ...submission,
+              kind: 'quiz_submit',
+              id,
+              userId: getCurrentUserId(),
+              label,
+              queuedAt: Date.now(),
+              tries: 0,
+            },
+          ],
+        });
+      },
+
+      // Send the signed-in student's queued requests, oldest first
+      flush: async () => {
+        if (get().isFlushing || !useAuthStore.getState().isAuthenticated) return;
+
+        const userId = getCurrentUserId();
+        const pending = get().queue.filter(request => request.userId === userId);
+        if (pending.length === 0) return;
+
+        set({ isFlushing: true, error: null });
+
+        for (const request of pending) {
+          let applyResults: () => void;
+          try {
+            applyResults = await sendQueuedRequest(request);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to sync';
+            const isAuthError = error instanceof ApiError && error.statusCode === 401;
+
+            if (isTransientError(error) || isAuthError) {
+              // Still offline (or signed out) - keep it and the rest for the next flush
+              set({
+                queue: get().queue.map(r => (r.id === request.id ? { ...r, tries: r.tries + 1 } : r)),
+                error: errorMessage,
+              });
+              break;
+            }
+
+            // The server refused it (e.g. the attempt expired) - sending it again won't help
+            console.warn(`[SyncQueue] Dropping ${request.label}:`, error);
+            set({ queue: get().queue.filter(r => r.id !== request.id), error: errorMessage });
+            continue;
+          }
+
+          // Accepted - off the queue before applying, so a failure there can't send it again
+          set({ queue: get().queue.filter(r => r.id !== request.id) });
+          console.log(`[SyncQueue] Synced ${request.label}`);
+          try {
+            applyResults();
+          } catch (error) {
+            console.error(`[SyncQueue] Failed to apply results of ${request.label}:`, error);
+          }
+        }
+
+        set({ isFlushing: false });
+      },
+
+      // Queued requests for the signed-in student
+      getPendingCount: () => {
+        const userId = getCurrentUserId();
+        return get().queue.filter(request => request.userId === userId).length;
+      },
+    }),
+    {
+      name: STORAGE_KEYS.SYNC_QUEUE,
+      partialize: (state) => ({
+        queue: state.queue,
+      }),
+    }
+  )
+);
@@ -0,0 +1,168 @@
+/**
+ * Battle Replay
+ *
+ * Plays a completed battle's log back one entry at a time.
+ * HP comes from the per-entry snapshots when the log has them; otherwise
+ * both sides start at full HP and jump to the final HP on the last entry.
+ */
+
+import { BATTLE_CONFIG } from '../config/constants';
+import type { BattleLogEntry, BattlePlayer, BattleState } from '../api/types';
+
+export interface ReplayFrame {
+  step: number; // Entries shown so far (0 = nothing yet)
+  totalSteps: number;
+  entries: BattleLogEntry[];
+  player1: BattlePlayer;
+  player2: BattlePlayer;
+}
+
+export class BattleReplay {
+  private state: BattleState;
+  private step: number = 0;
+  private playing: boolean = false;
+  private speedIndex: number = 0;
+  private timer: number = 0;
+
+  constructor(state: BattleState) {
+    if (state.status === 'active') {
+      throw new Error('Only finished battles can be replayed.');
+    }
+    this.state = state;
+  }
+
+  getBattle(): BattleState {
+    return this.state;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  isAtEnd(): boolean {
+    return this.step >= this.state.battle_log.length;
+  }
+
+  getSpeed(): number {
+    return BATTLE_CONFIG.REPLAY_SPEEDS[this.speedIndex];
+  }
+
+  play(): void {
+    // Playing from the end starts over
+    if (this.isAtEnd()) {
+      this.restart();
+    }
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.timer = 0;
+  }
+
+  togglePlay(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Show the next log entry (pauses playback)
+   * @returns True if there was an entry to show
+   */
+  stepForward(): boolean {
+    this.pause();
+    return this.advance();
+  }
+
+  /**
+   * Hide the latest log entry (pauses playback)
+   * @returns True if there was an entry to hide
+   */
+  stepBack(): boolean {
+    this.pause();
+    if (this.step === 0) {
+      return false;
+    }
+    this.step--;
+    return true;
+  }
+
+  restart(): void {
+    this.step = 0;
+    this.timer = 0;
+  }
+
+  /**
+   * Switch to the next speed in REPLAY_SPEEDS
+   * @returns New speed multiplier
+   */
+  cycleSpeed(): number {
+    this.speedIndex = (this.speedIndex + 1) % BATTLE_CONFIG.REPLAY_SPEEDS.length;
+    return this.getSpeed();
+  }
+
+  /**
+   * Advance playback
+   * @param deltaTime - Seconds since the last update
+   * @returns True if a new entry was shown
+   */
+  update(deltaTime: number): boolean {
+    if (!this.playing) {
+      return false;
+    }
+
+    this.timer += deltaTime * this.getSpeed();
+    if (this.timer < BATTLE_CONFIG.REPLAY_STEP_INTERVAL) {
+      return false;
+    }
+
+    this.timer = 0;
+    const advanced = this.advance();
+    if (this.isAtEnd()) {
+      this.playing = false;
+    }
+    return advanced;
+  }
+
+  /**
+   * What the battle looked like at the current step
+   */
+  getFrame(): ReplayFrame {
+    const log = this.state.battle_log;
+    const entries = log.slice(0, this.step);
+    const { player1, player2 } = this.state;
+
+    return {
+      step: this.step,
+      totalSteps: log.length,
+      entries,
+      player1: { ...player1, hp: this.getHp(entries, 'player1_hp', player1), status: null, stat_stages: {} },
+      player2: { ...player2, hp: this.getHp(entries, 'player2_hp', player2), status: null, stat_stages: {} },
+    };
+  }
+
+  private advance(): boolean {
+    if (this.isAtEnd()) {
+      return false;
+    }
+    this.step++;
+    return true;
+  }
+
+  private getHp(entries: BattleLogEntry[], key: 'player1_hp' | 'player2_hp', player: BattlePlayer): number {
+    if (this.isAtEnd()) {
+      return player.hp;
+    }
+
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const hp = entries[i][key];
+      if (hp !== undefined) {
+        return hp;
+      }
+    }
+    return player.max_hp;
+  }
+}
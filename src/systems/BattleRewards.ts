@@ -0,0 +1,122 @@
+/**
+ * Battle Rewards
+ *
+ * Reward rules from SIBLO.md "Battle Rewards":
+ * - XP for all party Siblons (the Siblon that fought gets a bigger share)
+ * - Coins based on opponent level
+ * - Chance for items (Potions, Evolution Stones)
+ * - 30% chance to catch the wild Siblon (PvE only)
+ *
+ * Used by the local API server, and for the preview shown when the server
+ * sends no rewards with the battle state (only server rewards are applied).
+ */
+
+import { BATTLE_CONFIG, GAME_CONFIG } from '../config/constants';
+import type { BattleRewardItem, BattleRewards, BattleType, PlayerSiblon, SiblonXpGain } from '../api/types';
+
+export interface LevelProgress {
+  level: number;
+  experience_points: number; // XP into the current level
+  levelsGained: number;
+}
+
+// Possible item drops and their chance (0-1)
+const ITEM_DROPS: Array<{ item: Omit<BattleRewardItem, 'quantity'>; chance: number }> = [
+  { item: { item_id: 'potion', name: 'Potion' }, chance: 0.25 },
+  { item: { item_id: 'evolution_stone', name: 'Evolution Stone' }, chance: 0.05 },
+];
+
+const { REWARDS } = BATTLE_CONFIG;
+
+/**
+ * Rewards for winning a battle
+ * @param random - Random source in [0, 1) (default: Math.random)
+ */
+export function calculateBattleRewards(
+  playerLevel: number,
+  opponentLevel: number,
+  battleType: BattleType,
+  random: () => number = Math.random
+): BattleRewards {
+  return {
+    ...estimateBattleRewards(playerLevel, opponentLevel),
+    items: rollItemDrops(random),
+    can_catch: battleType === 'pve' && random() < REWARDS.CATCH_CHANCE,
+  };
+}
+
+/**
+ * XP and coins for winning a battle (no item drops or catch - those are rolled)
+ */
+export function estimateBattleRewards(
+  playerLevel: number,
+  opponentLevel: number
+): Pick<BattleRewards, 'experience_points' | 'coins'> {
+  const baseXP = opponentLevel * REWARDS.XP_PER_OPPONENT_LEVEL;
+  const levelDiff = opponentLevel - playerLevel;
+  // Harder = more XP (never below 10% of the base)
+  const difficultyMultiplier = Math.max(0.1, 1 + levelDiff * REWARDS.LEVEL_DIFF_BONUS);
+
+  return {
+    experience_points: Math.floor(baseXP * difficultyMultiplier),
+    coins: opponentLevel * REWARDS.COINS_PER_OPPONENT_LEVEL,
+  };
+}
+
+/**
+ * Roll each possible item drop once
+ */
+export function rollItemDrops(random: () => number = Math.random): BattleRewardItem[] {
+  return ITEM_DROPS
+    .filter(({ chance }) => random() < chance)
+    .map(({ item }) => ({ ...item, quantity: 1 }));
+}
+
+/**
+ * Split battle XP across the party
+ * The Siblon that fought gets PARTICIPANT_XP_WEIGHT shares, everyone else one.
+ */
+export function distributeExperience(
+  totalXp: number,
+  party: PlayerSiblon[],
+  participantId: number | null
+): SiblonXpGain[] {
+  if (party.length === 0 || totalXp <= 0) {
+    return [];
+  }
+
+  const weightOf = (siblon: PlayerSiblon) =>
+    siblon.id === participantId ? REWARDS.PARTICIPANT_XP_WEIGHT : 1;
+  const totalWeight = party.reduce((sum, siblon) => sum + weightOf(siblon), 0);
+
+  return party.map(siblon => ({
+    siblon_id: siblon.id,
+    xp_gained: Math.floor((totalXp * weightOf(siblon)) / totalWeight),
+  }));
+}
+
+/**
+ * XP a Siblon needs to go from `level` to the next one
+ * XP_required = baseXP * level^1.5 (SIBLO.md "Level Thresholds")
+ */
+export function getXpToNextLevel(level: number): number {
+  return Math.floor(GAME_CONFIG.LEVEL_UP_BASE_XP * Math.pow(level, GAME_CONFIG.LEVEL_UP_MULTIPLIER));
+}
+
+/**
+ * Add XP to a Siblon, levelling up as thresholds are crossed
+ * @param level - Current level
+ * @param experiencePoints - XP into the current level
+ * @param xpGained - XP to add
+ */
+export function addSiblonExperience(level: number, experiencePoints: number, xpGained: number): LevelProgress {
+  let newLevel = level;
+  let xp = experiencePoints + xpGained;
+
+  while (xp >= getXpToNextLevel(newLevel)) {
+    xp -= getXpToNextLevel(newLevel);
+    newLevel++;
+  }
+
+  return { level: newLevel, experience_points: xp, levelsGained: newLevel - level };
+}
@@ -0,0 +1,77 @@
+/**
+ * Move Set
+ *
+ * Tracks a combatant's moves and remaining PP for a single battle.
+ * PP is restored when a new MoveSet is created for the next battle.
+ */
+
+import type { Move } from '../config/moves';
+
+export interface MoveSlot {
+  move: Move;
+  currentPP: number;
+  maxPP: number;
+}
+
+export class MoveSet {
+  private slots: MoveSlot[];
+
+  constructor(moves: Move[]) {
+    this.slots = moves.map(move => ({
+      move,
+      currentPP: move.pp,
+      maxPP: move.pp,
+    }));
+  }
+
+  /**
+   * Get all move slots in menu order
+   */
+  getSlots(): readonly MoveSlot[] {
+    return this.slots;
+  }
+
+  /**
+   * Get the slot for a move, if known
+   */
+  getSlot(moveId: string): MoveSlot | undefined {
+    return this.slots.find(slot => slot.move.id === moveId);
+  }
+
+  /**
+   * Check if a move is known and has PP left
+   */
+  canUse(moveId: string): boolean {
+    const slot = this.getSlot(moveId);
+    return !!slot && slot.currentPP > 0;
+  }
+
+  /**
+   * Check if any move still has PP
+   */
+  hasUsableMoves(): boolean {
+    return this.slots.some(slot => slot.currentPP > 0);
+  }
+
+  /**
+   * Spend one PP for a move
+   * @returns True if the move could be used
+   */
+  use(moveId: string): boolean {
+    const slot = this.getSlot(moveId);
+    if (!slot || slot.currentPP <= 0) {
+      return false;
+    }
+    slot.currentPP--;
+    return true;
+  }
+
+  /**
+   * Restore PP for every move
+   */
+  restoreAll(): void {
+    this.slots.forEach(slot => {
+      slot.currentPP = slot.maxPP;
+    });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Quiz Timer
+ *
+ * Countdown for a timed quiz attempt.
+ * The server's expires_at is authoritative; it is moved onto the local clock
+ * using started_at (server time when the attempt began), so a device clock
+ * that is minutes off still gets the full time limit.
+ * Untimed attempts just count up.
+ */
+
+import type { StartQuizResponse } from '../api/types';
+
+export class QuizTimer {
+  private localStart: number; // ms, local clock
+  private localDeadline: number | null; // ms, local clock (null = untimed)
+
+  /**
+   * @param attempt - Attempt timing from the server (started_at/expires_at)
+   * @param timeLimitMinutes - Quiz time limit, used when the server sends no expires_at
+   * @param now - Local time the attempt response arrived (default: Date.now())
+   */
+  constructor(
+    attempt: Pick<StartQuizResponse, 'started_at' | 'expires_at'>,
+    timeLimitMinutes: number | null,
+    now: number = Date.now()
+  ) {
+    this.localStart = now;
+
+    const serverStart = Date.parse(attempt.started_at);
+    const serverDeadline = attempt.expires_at ? Date.parse(attempt.expires_at) : NaN;
+
+    if (!Number.isNaN(serverStart) && !Number.isNaN(serverDeadline)) {
+      // Only the server-side duration matters, not either clock's absolute time
+      this.localDeadline = now + Math.max(0, serverDeadline - serverStart);
+    } else if (timeLimitMinutes) {
+      this.localDeadline = now + timeLimitMinutes * 60 * 1000;
+    } else {
+      this.localDeadline = null;
+    }
+  }
+
+  /**
+   * True if the attempt has a time limit
+   */
+  isTimed(): boolean {
+    return this.localDeadline !== null;
+  }
+
+  /**
+   * Whole seconds left (0 once expired, Infinity if untimed)
+   */
+  getRemainingSeconds(now: number = Date.now()): number {
+    if (this.localDeadline === null) return Infinity;
+    return Math.max(0, Math.ceil((this.localDeadline - now) / 1000));
+  }
+
+  /**
+   * Whole seconds since the attempt started
+   */
+  getElapsedSeconds(now: number = Date.now()): number {
+    return Math.max(0, Math.floor((now - this.localStart) / 1000));
+  }
+
+  isExpired(now: number = Date.now()): boolean {
+    return this.localDeadline !== null && now >= this.localDeadline;
+  }
+}
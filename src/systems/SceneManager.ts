@@ -3,17 +3,78 @@
  *
  * Manages game scene lifecycle:
  * - Loading and unloading scenes
+ * - Overlay scenes stacked on top of a paused scene (pause menu, dialogs, ...)
+ * - Typed parameters passed to a scene's load()
  * - Scene transitions
  * - Resource management
  */
 
 import * as PIXI from 'pixi.js';
+import { SCENE_NAMES } from '../config/constants';
 import type { BaseScene } from '../scenes/BaseScene';
+import type { BattleState } from '../api/types';
+
+export type SceneName = typeof SCENE_NAMES[keyof typeof SCENE_NAMES];
+
+/**
+ * Parameters each scene's load() receives (undefined = no parameters)
+ */
+export interface SceneParamsMap {
+  [SCENE_NAMES.MENU]: undefined;
+  [SCENE_NAMES.OVERWORLD]: undefined;
+  [SCENE_NAMES.BATTLE]: BattleSceneParams | undefined;
+  [SCENE_NAMES.TRAINING]: BattleSceneParams | undefined;
+  [SCENE_NAMES.REPLAY]: ReplaySceneParams;
+  [SCENE_NAMES.LOBBY]: undefined;
+  [SCENE_NAMES.PVP_BATTLE]: undefined;
+  [SCENE_NAMES.BATTLE_RESULTS]: undefined;
+  [SCENE_NAMES.QUIZ_SELECT]: undefined;
+  [SCENE_NAMES.QUIZ]: QuizSceneParams;
+  [SCENE_NAMES.COLLECTION]: undefined;
+  [SCENE_NAMES.PAUSE_MENU]: undefined;
+  [SCENE_NAMES.PARTY]: undefined;
+  [SCENE_NAMES.DIALOG]: DialogSceneParams;
+}
+
+export interface BattleSceneParams {
+  siblonId?: number; // Siblon to send out (default: lead party Siblon)
+}
+
+export interface ReplaySceneParams {
+  battleId: string;
+  battle?: BattleState; // Finished battle state to replay without fetching it
+}
+
+export interface QuizSceneParams {
+  quizId: number;
+}
+
+export interface DialogButton {
+  text: string;
+  color?: number; // Button colour (default: primary)
+  onSelect?: () => void; // Called after the dialog has closed
+}
+
+export interface DialogSceneParams {
+  title?: string;
+  message: string;
+  buttons?: DialogButton[]; // Default: a single OK button
+  dismissible?: boolean; // Escape closes without choosing (default: true)
+}
+
+// Parameters are optional only for scenes that can load without them
+type LoadSceneArgs<N extends SceneName> = undefined extends SceneParamsMap[N]
+  ? [params?: SceneParamsMap[N], transitionDuration?: number]
+  : [params: SceneParamsMap[N], transitionDuration?: number];
+
+type SceneConstructor<N extends SceneName> =
+  new (app: PIXI.Application, sceneManager: SceneManager) => BaseScene<SceneParamsMap[N]>;
 
 export class SceneManager {
   private app: PIXI.Application;
-  private currentScene: BaseScene | null = null;
-  private scenes: Map<string, new (app: PIXI.Application, sceneManager: SceneManager) => BaseScene>;
+  private currentScene: BaseScene<unknown> | null = null;
+  private overlays: BaseScene<unknown>[] = []; // Bottom to top, above currentScene
+  private scenes: Map<SceneName, SceneConstructor<SceneName>>;
   private isTransitioning: boolean = false;
 
   constructor(app: PIXI.Application) {
@@ -26,19 +87,19 @@ export class SceneManager {
    * @param name - Unique scene name
    * @param SceneClass - Scene constructor
    */
-  registerScene(
-    name: string,
-    SceneClass: new (app: PIXI.Application, sceneManager: SceneManager) => BaseScene
-  ): void {
-    this.scenes.set(name, SceneClass);
+  registerScene<N extends SceneName>(name: N, SceneClass: SceneConstructor<N>): void {
+    this.scenes.set(name, SceneClass as SceneConstructor<SceneName>);
   }
 
   /**
    * Load and display a scene
    * @param name - Scene name to load
+   * @param params - Parameters for the scene's load() (see SceneParamsMap)
    * @param transitionDuration - Fade transition duration in ms (default: 300)
    */
-  async loadScene(name: string, transitionDuration: number = 300): Promise<void> {
+  async loadScene<N extends SceneName>(name: N, ...args: LoadSceneArgs<N>): Promise<void> {
+    const [params, transitionDuration = 300] = args;
+
     if (this.isTransitioning) {
       console.warn('[SceneManager] Scene transition already in progress');
       return;
@@ -52,6 +113,11 @@ export class SceneManager {
     this.isTransitioning = true;
 
     try {
+      // Close any overlays first
+      while (this.overlays.length > 0) {
+        await this.removeTopOverlay();
+      }
+
       // Fade out current scene
       if (this.currentScene && transitionDuration > 0) {
         await this.fadeOut(this.currentScene.container, transitionDuration);
@@ -66,7 +132,7 @@ export class SceneManager {
 
       // Create and load new scene
       const newScene = new SceneClass(this.app, this);
-      await newScene.load();
+      await newScene.load(params);
 
       // Add to stage
       this.app.stage.addChild(newScene.container);
@@ -88,20 +154,103 @@ export class SceneManager {
   }
 
   /**
-   * Get current active scene
+   * Open an overlay scene on top of the current one
+   * The scene underneath is paused (no updates or input) but stays loaded.
+   * @param name - Scene name to push
+   * @param params - Parameters for the scene's load() (see SceneParamsMap)
+   */
+  async pushScene<N extends SceneName>(name: N, ...args: LoadSceneArgs<N>): Promise<void> {
+    const [params] = args;
+
+    if (this.isTransitioning) {
+      console.warn('[SceneManager] Scene transition already in progress');
+      return;
+    }
+
+    const SceneClass = this.scenes.get(name);
+    if (!SceneClass) {
+      throw new Error(`[SceneManager] Scene "${name}" not registered`);
+    }
+
+    this.isTransitioning = true;
+
+    try {
+      const overlay = new SceneClass(this.app, this);
+      await overlay.load(params);
+
+      this.getTopScene()?.pause();
+      this.app.stage.addChild(overlay.container);
+      this.overlays.push(overlay);
+
+      console.log(`[SceneManager] Pushed overlay scene: ${name}`);
+    } catch (error) {
+      console.error(`[SceneManager] Failed to push scene "${name}":`, error);
+      throw error;
+    } finally {
+      this.isTransitioning = false;
+    }
+  }
+
+  /**
+   * Close the topmost overlay scene and resume the one underneath
    */
-  getCurrentScene(): BaseScene | null {
+  async popScene(): Promise<void> {
+    if (this.overlays.length === 0) {
+      console.warn('[SceneManager] No overlay scene to pop');
+      return;
+    }
+    if (this.isTransitioning) {
+      console.warn('[SceneManager] Scene transition already in progress');
+      return;
+    }
+
+    this.isTransitioning = true;
+
+    try {
+      await this.removeTopOverlay();
+      this.getTopScene()?.resume();
+    } finally {
+      this.isTransitioning = false;
+    }
+  }
+
+  /**
+   * True while a scene is loading, or an overlay opening or closing
+   * (loadScene/pushScene/popScene are ignored meanwhile)
+   */
+  isBusy(): boolean {
+    return this.isTransitioning;
+  }
+
+  /**
+   * Get current active scene (the one underneath any overlays)
+   */
+  getCurrentScene(): BaseScene<unknown> | null {
     return this.currentScene;
   }
 
   /**
-   * Update current scene (called every frame)
+   * Get the scene receiving input: the topmost overlay, else the current scene
+   */
+  getTopScene(): BaseScene<unknown> | null {
+    return this.overlays[this.overlays.length - 1] ?? this.currentScene;
+  }
+
+  /**
+   * Update the topmost scene (called every frame)
+   * Scenes underneath an overlay are paused.
    * @param deltaTime - Time since last frame
    */
   update(deltaTime: number): void {
-    if (this.currentScene) {
-      this.currentScene.update(deltaTime);
-    }
+    this.getTopScene()?.update(deltaTime);
+  }
+
+  private async removeTopOverlay(): Promise<void> {
+    const overlay = this.overlays.pop();
+    if (!overlay) return;
+
+    await overlay.unload();
+    this.app.stage.removeChild(overlay.container);
   }
 
   /**
@@ -0,0 +1,56 @@
+/**
+ * Seeded Random
+ *
+ * Small deterministic PRNG (mulberry32) so offline battles can be
+ * replayed exactly from the same seed.
+ */
+
+export class SeededRandom {
+  private state: number;
+  public readonly seed: number;
+
+  constructor(seed: number = Date.now()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next float in [min, max)
+   */
+  nextFloat(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Next integer in [min, max] (inclusive)
+   */
+  nextInt(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Roll a percentage chance
+   * @param percent - Chance of success, 0-100
+   */
+  chance(percent: number): boolean {
+    return this.next() * 100 < percent;
+  }
+
+  /**
+   * Pick a random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
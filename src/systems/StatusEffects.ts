@@ -0,0 +1,204 @@
+/**
+ * Status Effects
+ *
+ * Persistent conditions (burn, poison, paralysis) and stat stage modifiers
+ * for one combatant. Conditions and stat changes wear off after a number of
+ * turns; end-of-turn ticks apply damage over time and report what happened
+ * as battle log entries.
+ *
+ * Stat stage multipliers: +1 = 1.5x, +2 = 2x ... -1 = 0.67x, -2 = 0.5x ...
+ */
+
+import { SeededRandom } from './SeededRandom';
+import { BATTLE_CONFIG } from '../config/constants';
+import type { BattleLogEntry, BattleStat, StatStages, StatusCondition } from '../api/types';
+
+export interface StatusTickResult {
+  damage: number;
+  log: BattleLogEntry[];
+}
+
+interface ActiveCondition {
+  type: StatusCondition;
+  turnsRemaining: number;
+}
+
+interface ActiveStatStage {
+  stage: number;
+  turnsRemaining: number;
+}
+
+const { STATUS } = BATTLE_CONFIG;
+
+const CONDITION_MESSAGES: Record<StatusCondition, { inflicted: string; already: string; cured: string }> = {
+  burn: { inflicted: 'was burned!', already: 'is already burned.', cured: "'s burn healed." },
+  poison: { inflicted: 'was poisoned!', already: 'is already poisoned.', cured: ' is no longer poisoned.' },
+  paralyze: { inflicted: 'is paralyzed! It may be unable to move!', already: 'is already paralyzed.', cured: ' is no longer paralyzed.' },
+};
+
+const STAT_NAMES: Record<BattleStat, string> = {
+  attack: 'Attack',
+  defense: 'Defense',
+  speed: 'Speed',
+};
+
+export class StatusEffects {
+  private ownerName: string;
+  private playerId: number | null;
+  private condition: ActiveCondition | null = null;
+  private stages: Map<BattleStat, ActiveStatStage> = new Map();
+
+  /**
+   * @param ownerName - Siblon name used in log messages
+   * @param playerId - Trainer user ID for log entries (null for AI)
+   */
+  constructor(ownerName: string, playerId: number | null) {
+    this.ownerName = ownerName;
+    this.playerId = playerId;
+  }
+
+  /**
+   * Current condition, if any
+   */
+  getCondition(): StatusCondition | null {
+    return this.condition?.type ?? null;
+  }
+
+  /**
+   * Non-zero stat stages
+   */
+  getStatStages(): StatStages {
+    const stages: StatStages = {};
+    this.stages.forEach(({ stage }, stat) => {
+      stages[stat] = stage;
+    });
+    return stages;
+  }
+
+  /**
+   * Inflict a condition (a Siblon can only have one at a time)
+   */
+  applyCondition(condition: StatusCondition): BattleLogEntry[] {
+    if (this.condition) {
+      return this.condition.type === condition
+        ? [this.entry('status', `${this.ownerName} ${CONDITION_MESSAGES[condition].already}`)]
+        : [];
+    }
+
+    this.condition = { type: condition, turnsRemaining: STATUS.CONDITION_DURATION };
+    return [this.entry('status', `${this.ownerName} ${CONDITION_MESSAGES[condition].inflicted}`)];
+  }
+
+  /**
+   * Raise or lower a stat by some stages (clamped to +/-MAX_STAT_STAGE)
+   * Changing a stat again refreshes its duration.
+   */
+  applyStatChange(stat: BattleStat, stages: number): BattleLogEntry[] {
+    const current = this.stages.get(stat)?.stage ?? 0;
+    const next = Math.max(-STATUS.MAX_STAT_STAGE, Math.min(STATUS.MAX_STAT_STAGE, current + stages));
+    const statName = STAT_NAMES[stat];
+
+    if (next === current) {
+      const limit = stages > 0 ? 'higher' : 'lower';
+      return [this.entry('stat_change', `${this.ownerName}'s ${statName} won't go any ${limit}!`)];
+    }
+
+    if (next === 0) {
+      this.stages.delete(stat);
+    } else {
+      this.stages.set(stat, { stage: next, turnsRemaining: STATUS.STAT_STAGE_DURATION });
+    }
+
+    const change = next - current;
+    const amount = Math.abs(change) > 1 ? ' sharply' : '';
+    const direction = change > 0 ? 'rose' : 'fell';
+    return [this.entry('stat_change', `${this.ownerName}'s ${statName}${amount} ${direction}!`)];
+  }
+
+  /**
+   * Apply stat stages and condition penalties to a raw stat
+   */
+  modifyStat(stat: BattleStat, value: number): number {
+    let modified = value * StatusEffects.getStageMultiplier(this.stages.get(stat)?.stage ?? 0);
+
+    if (stat === 'attack' && this.condition?.type === 'burn') {
+      modified *= STATUS.BURN_ATTACK_MULTIPLIER;
+    }
+    if (stat === 'speed' && this.condition?.type === 'paralyze') {
+      modified *= STATUS.PARALYSIS_SPEED_MULTIPLIER;
+    }
+
+    return Math.max(1, Math.floor(modified));
+  }
+
+  /**
+   * Roll for full paralysis before the Siblon acts
+   * @returns Log entry if the Siblon loses its turn, otherwise null
+   */
+  checkParalysis(rng: SeededRandom): BattleLogEntry | null {
+    if (this.condition?.type !== 'paralyze' || !rng.chance(STATUS.PARALYSIS_SKIP_CHANCE)) {
+      return null;
+    }
+    return this.entry('status', `${this.ownerName} is paralyzed! It can't move!`);
+  }
+
+  /**
+   * End-of-turn update: damage over time, then count down durations
+   * @param maxHp - Owner's max HP (damage is a fraction of it)
+   */
+  tickEndOfTurn(maxHp: number): StatusTickResult {
+    const log: BattleLogEntry[] = [];
+    let damage = 0;
+
+    if (this.condition) {
+      const { type } = this.condition;
+
+      if (type === 'burn' || type === 'poison') {
+        const fraction = type === 'burn' ? STATUS.BURN_DAMAGE : STATUS.POISON_DAMAGE;
+        damage = Math.max(1, Math.floor(maxHp * fraction));
+        const cause = type === 'burn' ? 'its burn' : 'poison';
+        log.push(this.entry('status_damage', `${this.ownerName} is hurt by ${cause}! (-${damage} HP)`));
+      }
+
+      this.condition.turnsRemaining--;
+      if (this.condition.turnsRemaining <= 0) {
+        log.push(this.entry('status_end', `${this.ownerName}${CONDITION_MESSAGES[type].cured}`));
+        this.condition = null;
+      }
+    }
+
+    this.stages.forEach((active, stat) => {
+      active.turnsRemaining--;
+      if (active.turnsRemaining <= 0) {
+        this.stages.delete(stat);
+        log.push(this.entry('status_end', `${this.ownerName}'s ${STAT_NAMES[stat]} returned to normal.`));
+      }
+    });
+
+    return { damage, log };
+  }
+
+  /**
+   * Remove every condition and stat change
+   */
+  clear(): void {
+    this.condition = null;
+    this.stages.clear();
+  }
+
+  /**
+   * Multiplier for a stat stage (-6 to +6)
+   */
+  static getStageMultiplier(stage: number): number {
+    return stage >= 0 ? (2 + stage) / 2 : 2 / (2 - stage);
+  }
+
+  private entry(action: string, message: string): BattleLogEntry {
+    return {
+      action,
+      player_id: this.playerId,
+      message,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
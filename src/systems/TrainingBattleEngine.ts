@@ -0,0 +1,423 @@
+/**
+ * Training Battle Engine
+ *
+ * Deterministic client-side battle simulation for BattleType 'training'.
+ * Produces the same BattleState shape as the server so the battle UI
+ * can render offline battles unchanged.
+ *
+ * Damage formula:
+ *   base = ((2 * level / 5 + 2) * power * attack / defense) / 50 + 2
+ *   damage = base * typeMultiplier * critical * random(0.85-1.0)
+ *
+ * Attack, defense and speed include stat stages and status penalties.
+ */
+
+import { SeededRandom } from './SeededRandom';
+import { MoveSet } from './MoveSet';
+import { StatusEffects } from './StatusEffects';
+import { BATTLE_CONFIG, ELEMENT_TYPES } from '../config/constants';
+import { getEffectiveness, type EffectivenessResult } from '../config/typeChart';
+import { getMove, getMovesForLevel, getSiblonMoves, getTypeLearnset, type Move } from '../config/moves';
+import type {
+  BattleLogEntry,
+  BattlePlayer,
+  BattleStat,
+  BattleState,
+  BattleStatus,
+  ForfeitBattleResponse,
+  PlayerSiblon,
+} from '../api/types';
+
+export interface Combatant {
+  userId: number | null; // Trainer user ID (null for AI)
+  trainerName: string;
+  siblonId: number | null;
+  name: string;
+  level: number;
+  hp: number;
+  maxHp: number;
+  attack: number;
+  defense: number;
+  speed: number;
+  primaryType: string;
+  secondaryType: string | null;
+  moveSet: MoveSet;
+  status: StatusEffects;
+}
+
+export interface DamageResult {
+  damage: number;
+  missed: boolean;
+  isCritical: boolean;
+  effectiveness: EffectivenessResult;
+}
+
+const RANDOM_FACTOR_MIN = 0.85;
+
+// Base stats for Training Grounds dummies
+const DUMMY_BASE_STATS = { hp: 40, attack: 20, defense: 30, speed: 10 };
+
+/**
+ * Stat at a given level (SIBLO.md "Siblon Stats & Growth")
+ */
+export function calculateStat(baseStat: number, level: number, statType: 'hp' | 'other'): number {
+  if (statType === 'hp') {
+    return Math.floor((2 * baseStat * level) / 100) + level + 10;
+  }
+  return Math.floor((2 * baseStat * level) / 100) + 5;
+}
+
+/**
+ * Stat after stat stages and status penalties
+ */
+export function getEffectiveStat(combatant: Combatant, stat: BattleStat): number {
+  return combatant.status.modifyStat(stat, combatant[stat]);
+}
+
+/**
+ * Calculate damage for one move
+ * Status moves and misses deal no damage.
+ */
+export function calculateDamage(
+  attacker: Combatant,
+  defender: Combatant,
+  move: Move,
+  rng: SeededRandom
+): DamageResult {
+  const effectiveness = getEffectiveness(move.type, defender.primaryType, defender.secondaryType);
+
+  if (!rng.chance(move.accuracy)) {
+    return { damage: 0, missed: true, isCritical: false, effectiveness };
+  }
+
+  if (move.category === 'status' || move.power <= 0) {
+    return { damage: 0, missed: false, isCritical: false, effectiveness };
+  }
+
+  const isCritical = rng.next() < BATTLE_CONFIG.CRITICAL_HIT_CHANCE;
+  const levelFactor = (2 * attacker.level) / 5 + 2;
+  const attack = getEffectiveStat(attacker, 'attack');
+  const defense = getEffectiveStat(defender, 'defense');
+  const base = (levelFactor * move.power * attack) / Math.max(1, defense) / 50 + 2;
+
+  let damage = base * effectiveness.multiplier;
+  if (isCritical) {
+    damage *= BATTLE_CONFIG.CRITICAL_HIT_MULTIPLIER;
+  }
+  damage *= rng.nextFloat(RANDOM_FACTOR_MIN, 1);
+
+  // Anything that isn't immune does at least 1 damage
+  const finalDamage = effectiveness.multiplier === 0 ? 0 : Math.max(1, Math.floor(damage));
+
+  return { damage: finalDamage, missed: false, isCritical, effectiveness };
+}
+
+/**
+ * Build a combatant from one of the player's Siblons
+ */
+export function createCombatantFromSiblon(
+  siblon: PlayerSiblon,
+  trainer: { userId: number | null; trainerName: string }
+): Combatant {
+  const name = siblon.nickname ?? siblon.species_name;
+
+  return {
+    userId: trainer.userId,
+    trainerName: trainer.trainerName,
+    siblonId: siblon.id,
+    name,
+    level: siblon.level,
+    hp: siblon.current_hp,
+    maxHp: siblon.max_hp,
+    attack: siblon.attack_stat,
+    defense: siblon.defense_stat,
+    speed: siblon.speed_stat,
+    primaryType: siblon.species_data.type_primary,
+    secondaryType: siblon.species_data.type_secondary,
+    moveSet: new MoveSet(getSiblonMoves(siblon)),
+    status: new StatusEffects(name, trainer.userId),
+  };
+}
+
+/**
+ * Build a Training Grounds dummy
+ * @param level - Dummy level
+ * @param type - Dummy element type (default: Normal)
+ */
+export function createTrainingDummy(level: number, type: string = ELEMENT_TYPES.NORMAL): Combatant {
+  const maxHp = calculateStat(DUMMY_BASE_STATS.hp, level, 'hp');
+  const name = 'Training Dummy';
+
+  return {
+    userId: null,
+    trainerName: 'Training Grounds',
+    siblonId: null,
+    name,
+    level,
+    hp: maxHp,
+    maxHp,
+    attack: calculateStat(DUMMY_BASE_STATS.attack, level, 'other'),
+    defense: calculateStat(DUMMY_BASE_STATS.defense, level, 'other'),
+    speed: calculateStat(DUMMY_BASE_STATS.speed, level, 'other'),
+    primaryType: type,
+    secondaryType: null,
+    moveSet: new MoveSet(getMovesForLevel(getTypeLearnset(type), level)),
+    status: new StatusEffects(name, null),
+  };
+}
+
+export class TrainingBattleEngine {
+  private player: Combatant;
+  private opponent: Combatant;
+  private rng: SeededRandom;
+  private battleId: string;
+  private status: BattleStatus = 'active';
+  private currentTurn: number = 1;
+  private winnerId: number | null = null;
+  private startedAt: string;
+  private completedAt: string | null = null;
+  private log: BattleLogEntry[] = [];
+
+  /**
+   * @param player - Player's combatant (always player1)
+   * @param opponent - AI-controlled combatant (player2)
+   * @param seed - RNG seed; the same seed and moves replay the same battle
+   */
+  constructor(player: Combatant, opponent: Combatant, seed: number = Date.now()) {
+    this.player = player;
+    this.opponent = opponent;
+    this.rng = new SeededRandom(seed);
+    this.battleId = `training-${this.rng.seed}`;
+    this.startedAt = new Date().toISOString();
+
+    this.addLog('start', null, `${opponent.trainerName} sent out ${opponent.name}!`);
+    this.addLog('start', player.userId, `Go, ${player.name}!`);
+  }
+
+  /**
+   * Seed used for this battle
+   */
+  getSeed(): number {
+    return this.rng.seed;
+  }
+
+  /**
+   * Snapshot of the battle in the server's BattleState shape
+   */
+  getState(): BattleState {
+    return {
+      battle_id: this.battleId,
+      status: this.status,
+      player1: this.toBattlePlayer(this.player),
+      player2: this.toBattlePlayer(this.opponent),
+      current_turn: this.currentTurn,
+      turn_player_id: this.player.userId ?? 0,
+      winner_id: this.winnerId,
+      started_at: this.startedAt,
+      completed_at: this.completedAt,
+      battle_log: [...this.log],
+    };
+  }
+
+  /**
+   * Resolve a full turn: the player's move plus the AI's reply,
+   * in speed order (ties broken by the RNG), then end-of-turn status ticks
+   * @param moveId - Move chosen by the player
+   * @returns Battle state after the turn
+   */
+  submitMove(moveId: string): BattleState {
+    if (this.status !== 'active') {
+      throw new Error('This battle is already over.');
+    }
+    // With no PP left anywhere, the default move is always allowed
+    const isFallback = moveId === BATTLE_CONFIG.DEFAULT_MOVE && !this.player.moveSet.hasUsableMoves();
+    if (!isFallback && !this.player.moveSet.canUse(moveId)) {
+      throw new Error(`${moveId} cannot be used right now.`);
+    }
+
+    const opponentMoveId = this.chooseOpponentMove();
+    const playerSpeed = getEffectiveStat(this.player, 'speed');
+    const opponentSpeed = getEffectiveStat(this.opponent, 'speed');
+    const playerFirst = playerSpeed !== opponentSpeed
+      ? playerSpeed > opponentSpeed
+      : this.rng.chance(50);
+
+    const order: Array<[Combatant, Combatant, string]> = playerFirst
+      ? [[this.player, this.opponent, moveId], [this.opponent, this.player, opponentMoveId]]
+      : [[this.opponent, this.player, opponentMoveId], [this.player, this.opponent, moveId]];
+
+    for (const [attacker, defender, attackerMoveId] of order) {
+      this.executeMove(attacker, defender, attackerMoveId);
+
+      if (this.checkFaint(defender, attacker)) {
+        break;
+      }
+    }
+
+    if (this.status === 'active') {
+      this.tickStatus(this.player, this.opponent);
+    }
+    if (this.status === 'active') {
+      this.tickStatus(this.opponent, this.player);
+    }
+
+    if (this.status === 'active') {
+      this.currentTurn++;
+    }
+
+    return this.getState();
+  }
+
+  /**
+   * Forfeit the battle (the AI wins)
+   */
+  forfeit(): ForfeitBattleResponse {
+    if (this.status === 'active') {
+      this.addLog('forfeit', this.player.userId, `${this.player.trainerName} forfeited the battle.`);
+      this.endBattle('forfeited', this.opponent.userId);
+    }
+
+    return {
+      message: 'You forfeited the training battle.',
+      battle_id: this.battleId,
+      winner_id: this.winnerId,
+      status: this.status,
+    };
+  }
+
+  private executeMove(attacker: Combatant, defender: Combatant, moveId: string): void {
+    const move = getMove(moveId) ?? getMove(BATTLE_CONFIG.DEFAULT_MOVE)!;
+    attacker.moveSet.use(move.id);
+
+    const paralysis = attacker.status.checkParalysis(this.rng);
+    if (paralysis) {
+      this.record(paralysis);
+      return;
+    }
+
+    this.addLog('move', attacker.userId, `${attacker.name} used ${move.name}!`);
+
+    const result = calculateDamage(attacker, defender, move, this.rng);
+
+    if (result.missed) {
+      this.addLog('miss', attacker.userId, `${attacker.name}'s attack missed!`);
+      return;
+    }
+
+    if (move.category === 'status') {
+      this.applyMoveEffect(move, attacker, defender);
+      return;
+    }
+
+    if (result.effectiveness.category === 'NO_EFFECT') {
+      this.addLog('effectiveness', attacker.userId, `It had no effect on ${defender.name}...`);
+      return;
+    }
+
+    if (result.isCritical) {
+      this.addLog('critical', attacker.userId, 'A critical hit!');
+    }
+    if (result.effectiveness.category !== 'NORMAL') {
+      this.addLog('effectiveness', attacker.userId, `It's ${result.effectiveness.label}`);
+    }
+
+    defender.hp = Math.max(0, defender.hp - result.damage);
+    this.addLog('damage', attacker.userId, `${defender.name} took ${result.damage} damage.`);
+
+    if (defender.hp > 0) {
+      this.applyMoveEffect(move, attacker, defender);
+    }
+  }
+
+  /**
+   * Roll a move's secondary effect (burn, poison, paralysis, stat change)
+   */
+  private applyMoveEffect(move: Move, attacker: Combatant, defender: Combatant): void {
+    const { effect } = move;
+    if (!effect || !this.rng.chance(effect.chance)) {
+      return;
+    }
+
+    const target = effect.target === 'self' ? attacker : defender;
+    const entries = effect.type === 'stat_change'
+      ? (effect.stat && effect.stages ? target.status.applyStatChange(effect.stat, effect.stages) : [])
+      : target.status.applyCondition(effect.type);
+
+    entries.forEach(entry => this.record(entry));
+  }
+
+  /**
+   * End-of-turn damage over time and duration countdowns
+   */
+  private tickStatus(combatant: Combatant, other: Combatant): void {
+    const { damage, log } = combatant.status.tickEndOfTurn(combatant.maxHp);
+    combatant.hp = Math.max(0, combatant.hp - damage);
+    log.forEach(entry => this.record(entry));
+    this.checkFaint(combatant, other);
+  }
+
+  /**
+   * End the battle if a combatant has fainted
+   * @returns True if the combatant fainted
+   */
+  private checkFaint(combatant: Combatant, other: Combatant): boolean {
+    if (combatant.hp > 0) {
+      return false;
+    }
+
+    this.addLog('faint', combatant.userId, `${combatant.name} fainted!`);
+    this.endBattle('completed', other.userId);
+    return true;
+  }
+
+  /**
+   * AI picks a random move that still has PP
+   */
+  private chooseOpponentMove(): string {
+    const usable = this.opponent.moveSet.getSlots().filter(slot => slot.currentPP > 0);
+    if (usable.length === 0) {
+      return BATTLE_CONFIG.DEFAULT_MOVE;
+    }
+    return this.rng.pick(usable).move.id;
+  }
+
+  private endBattle(status: BattleStatus, winnerId: number | null): void {
+    this.status = status;
+    this.winnerId = winnerId;
+    this.completedAt = new Date().toISOString();
+  }
+
+  private addLog(action: string, playerId: number | null, message: string): void {
+    this.record({
+      action,
+      player_id: playerId,
+      message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Append a log entry stamped with both sides' HP so it can be replayed
+   */
+  private record(entry: BattleLogEntry): void {
+    this.log.push({
+      ...entry,
+      player1_hp: this.player.hp,
+      player2_hp: this.opponent.hp,
+    });
+  }
+
+  private toBattlePlayer(combatant: Combatant): BattlePlayer {
+    return {
+      user_id: combatant.userId,
+      username: combatant.trainerName,
+      siblon_id: combatant.siblonId,
+      siblon_name: combatant.name,
+      hp: combatant.hp,
+      max_hp: combatant.maxHp,
+      level: combatant.level,
+      status: combatant.status.getCondition(),
+      stat_stages: combatant.status.getStatStages(),
+    };
+  }
+}
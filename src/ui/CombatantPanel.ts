@@ -0,0 +1,166 @@
+/**
+ * Combatant Panel Component (PixiJS)
+ *
+ * Shows one side of a battle: Siblon name, level, HP bar and HP numbers,
+ * plus a status badge next to the HP bar and any stat changes.
+ */
+
+import * as PIXI from 'pixi.js';
+import { HealthBar } from './HealthBar';
+import { GAME_CONFIG, STATUS_BADGES } from '../config/constants';
+import type { BattlePlayer, BattleStat, StatStages, StatusCondition } from '../api/types';
+
+const STAT_LABELS: Record<BattleStat, string> = {
+  attack: 'ATK',
+  defense: 'DEF',
+  speed: 'SPD',
+};
+
+export class CombatantPanel extends PIXI.Container {
+  private background: PIXI.Graphics;
+  private nameText: PIXI.Text;
+  private trainerText: PIXI.Text;
+  private healthBar: HealthBar;
+  private hpText: PIXI.Text;
+  private statusBadge: PIXI.Container;
+  private statusBackground: PIXI.Graphics;
+  private statusText: PIXI.Text;
+  private stagesText: PIXI.Text;
+
+  static readonly WIDTH = 320;
+  static readonly HEIGHT = 100;
+  static readonly BADGE_WIDTH = 44;
+  static readonly BADGE_HEIGHT = 18;
+
+  constructor() {
+    super();
+
+    // Background panel
+    this.background = new PIXI.Graphics();
+    this.background.rect(0, 0, CombatantPanel.WIDTH, CombatantPanel.HEIGHT);
+    this.background.fill({ color: 0x000000, alpha: 0.7 });
+    this.background.rect(0, 0, CombatantPanel.WIDTH, CombatantPanel.HEIGHT);
+    this.background.stroke({ color: GAME_CONFIG.COLORS.PRIMARY, width: 2 });
+    this.addChild(this.background);
+
+    // Siblon name and level
+    this.nameText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.nameText.x = 12;
+    this.nameText.y = 12;
+    this.addChild(this.nameText);
+
+    // Trainer name
+    this.trainerText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 9,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    this.trainerText.x = 12;
+    this.trainerText.y = 34;
+    this.addChild(this.trainerText);
+
+    // HP bar
+    this.healthBar = new HealthBar({ width: CombatantPanel.WIDTH - 32 - CombatantPanel.BADGE_WIDTH });
+    this.healthBar.x = 12;
+    this.healthBar.y = 54;
+    this.addChild(this.healthBar);
+
+    // Status badge (hidden while healthy)
+    this.statusBadge = new PIXI.Container();
+    this.statusBadge.x = CombatantPanel.WIDTH - 12 - CombatantPanel.BADGE_WIDTH;
+    this.statusBadge.y = 52;
+    this.statusBadge.visible = false;
+    this.addChild(this.statusBadge);
+
+    this.statusBackground = new PIXI.Graphics();
+    this.statusBadge.addChild(this.statusBackground);
+
+    this.statusText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 8,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.statusText.anchor.set(0.5);
+    this.statusText.x = CombatantPanel.BADGE_WIDTH / 2;
+    this.statusText.y = CombatantPanel.BADGE_HEIGHT / 2;
+    this.statusBadge.addChild(this.statusText);
+
+    // Stat changes (e.g. "ATK-1 SPD+2")
+    this.stagesText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 8,
+        fill: GAME_CONFIG.COLORS.WARNING,
+      },
+    });
+    this.stagesText.x = 12;
+    this.stagesText.y = 78;
+    this.addChild(this.stagesText);
+
+    // HP numbers
+    this.hpText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 10,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.hpText.anchor.set(1, 0);
+    this.hpText.x = CombatantPanel.WIDTH - 12;
+    this.hpText.y = 76;
+    this.addChild(this.hpText);
+  }
+
+  /**
+   * Update panel contents from server battle data
+   */
+  setCombatant(player: BattlePlayer): void {
+    this.nameText.text = `${player.siblon_name} Lv.${player.level}`;
+    this.trainerText.text = player.username;
+    this.healthBar.setHealth(player.hp, player.max_hp);
+    this.hpText.text = `${Math.max(0, player.hp)}/${player.max_hp} HP`;
+    this.setStatus(player.status ?? null);
+    this.stagesText.text = this.formatStatStages(player.stat_stages ?? {});
+  }
+
+  private setStatus(condition: StatusCondition | null): void {
+    if (!condition) {
+      this.statusBadge.visible = false;
+      return;
+    }
+
+    const badge = STATUS_BADGES[condition];
+    this.statusBackground.clear();
+    this.statusBackground.rect(0, 0, CombatantPanel.BADGE_WIDTH, CombatantPanel.BADGE_HEIGHT);
+    this.statusBackground.fill({ color: badge.color });
+    this.statusBackground.rect(0, 0, CombatantPanel.BADGE_WIDTH, CombatantPanel.BADGE_HEIGHT);
+    this.statusBackground.stroke({ color: GAME_CONFIG.COLORS.TEXT_DARK, width: 2 });
+    this.statusText.text = badge.label;
+    this.statusBadge.visible = true;
+  }
+
+  private formatStatStages(stages: StatStages): string {
+    return (Object.keys(STAT_LABELS) as BattleStat[])
+      .filter(stat => (stages[stat] ?? 0) !== 0)
+      .map(stat => {
+        const stage = stages[stat] ?? 0;
+        return `${STAT_LABELS[stat]}${stage > 0 ? '+' : ''}${stage}`;
+      })
+      .join(' ');
+  }
+}
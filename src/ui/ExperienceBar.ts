@@ -0,0 +1,106 @@
+/**
+ * Experience Bar Component (PixiJS)
+ *
+ * Thin XP bar for a Siblon that can animate XP gains,
+ * wrapping around (and levelling up) when it fills.
+ */
+
+import * as PIXI from 'pixi.js';
+import { BATTLE_CONFIG, GAME_CONFIG } from '../config/constants';
+import { getXpToNextLevel } from '../systems/BattleRewards';
+
+export interface ExperienceBarConfig {
+  width?: number;
+  height?: number;
+  onLevelUp?: (level: number) => void;
+}
+
+export class ExperienceBar extends PIXI.Container {
+  private background: PIXI.Graphics;
+  private fill: PIXI.Graphics;
+  private config: Required<ExperienceBarConfig>;
+
+  private level: number = 1;
+  private xp: number = 0;
+  private pendingXp: number = 0;
+  private fillRate: number = 0; // XP per second while animating
+
+  constructor(config: ExperienceBarConfig = {}) {
+    super();
+
+    // Apply defaults
+    this.config = {
+      width: config.width ?? 200,
+      height: config.height ?? 8,
+      onLevelUp: config.onLevelUp ?? (() => {}),
+    };
+
+    this.background = new PIXI.Graphics();
+    this.background.rect(0, 0, this.config.width, this.config.height);
+    this.background.fill({ color: 0x2a2a3e });
+    this.background.rect(0, 0, this.config.width, this.config.height);
+    this.background.stroke({ color: 0x8B9BB4, width: 1 });
+    this.addChild(this.background);
+
+    this.fill = new PIXI.Graphics();
+    this.addChild(this.fill);
+  }
+
+  /**
+   * Show a Siblon's current progress without animating
+   * @param level - Current level
+   * @param xp - XP into the current level
+   */
+  setProgress(level: number, xp: number): void {
+    this.level = level;
+    this.xp = xp;
+    this.pendingXp = 0;
+    this.draw();
+  }
+
+  /**
+   * Start animating an XP gain over BATTLE_CONFIG.XP_BAR_FILL_TIME
+   */
+  animateGain(xpGained: number): void {
+    this.pendingXp += xpGained;
+    this.fillRate = this.pendingXp / BATTLE_CONFIG.XP_BAR_FILL_TIME;
+  }
+
+  /**
+   * True while an XP gain is still filling
+   */
+  isAnimating(): boolean {
+    return this.pendingXp > 0;
+  }
+
+  /**
+   * Advance the animation
+   * @param deltaTime - Seconds since the last update
+   */
+  update(deltaTime: number): void {
+    if (this.pendingXp <= 0) return;
+
+    const step = Math.min(this.pendingXp, Math.max(1, this.fillRate * deltaTime));
+    this.pendingXp -= step;
+    this.xp += step;
+
+    const needed = getXpToNextLevel(this.level);
+    if (this.xp >= needed) {
+      this.xp -= needed;
+      this.level++;
+      this.config.onLevelUp(this.level);
+    }
+
+    this.draw();
+  }
+
+  private draw(): void {
+    const ratio = Math.max(0, Math.min(this.xp / getXpToNextLevel(this.level), 1));
+
+    this.fill.clear();
+    if (ratio <= 0) return;
+
+    this.fill.rect(1, 1, (this.config.width - 2) * ratio, this.config.height - 2);
+    this.fill.fill({ color: GAME_CONFIG.COLORS.PRIMARY });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Health Bar Component (PixiJS)
+ *
+ * Pixel-art HP bar that changes color as health drops.
+ */
+
+import * as PIXI from 'pixi.js';
+import { GAME_CONFIG } from '../config/constants';
+
+export interface HealthBarConfig {
+  width?: number;
+  height?: number;
+}
+
+export class HealthBar extends PIXI.Container {
+  private background: PIXI.Graphics;
+  private fill: PIXI.Graphics;
+  private config: Required<HealthBarConfig>;
+
+  constructor(config: HealthBarConfig = {}) {
+    super();
+
+    // Apply defaults
+    this.config = {
+      width: config.width ?? 200,
+      height: config.height ?? 14,
+    };
+
+    // Create background (empty bar with border)
+    this.background = new PIXI.Graphics();
+    this.background.rect(0, 0, this.config.width, this.config.height);
+    this.background.fill({ color: 0x2a2a3e });
+    this.background.rect(0, 0, this.config.width, this.config.height);
+    this.background.stroke({ color: 0x8B9BB4, width: 2 });
+    this.addChild(this.background);
+
+    // Create fill
+    this.fill = new PIXI.Graphics();
+    this.addChild(this.fill);
+  }
+
+  /**
+   * Update the bar to reflect current health
+   * @param current - Current HP
+   * @param max - Maximum HP
+   */
+  setHealth(current: number, max: number): void {
+    const ratio = max > 0 ? Math.max(0, Math.min(current / max, 1)) : 0;
+
+    this.fill.clear();
+    if (ratio <= 0) return;
+
+    this.fill.rect(2, 2, (this.config.width - 4) * ratio, this.config.height - 4);
+    this.fill.fill({ color: this.getColorForRatio(ratio) });
+  }
+
+  private getColorForRatio(ratio: number): number {
+    if (ratio > 0.5) return GAME_CONFIG.COLORS.SUCCESS;
+    if (ratio > 0.2) return GAME_CONFIG.COLORS.WARNING;
+    return GAME_CONFIG.COLORS.DANGER;
+  }
+}
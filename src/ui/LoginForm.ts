@@ -212,10 +212,24 @@ export class LoginForm extends PIXI.Container {
   }
 
   private showError(message: string): void {
+    this.errorText.style.fill = GAME_CONFIG.COLORS.DANGER;
     this.errorText.text = message;
     this.errorText.visible = true;
   }
 
+  /**
+   * Ask an existing player to log back in (e.g. after their session expired)
+   * @param email - Pre-filled into the email field
+   */
+  showSessionExpired(email: string | null): void {
+    if (email) {
+      this.emailField.setValue(email);
+    }
+    this.errorText.style.fill = GAME_CONFIG.COLORS.WARNING;
+    this.errorText.text = 'Your session expired. Log in again to continue.';
+    this.errorText.visible = true;
+  }
+
   private hideError(): void {
     this.errorText.visible = false;
     this.errorText.text = '';
@@ -0,0 +1,386 @@
+/**
+ * Math Text Component (PixiJS)
+ *
+ * Text with inline math markup, laid out with plain PIXI.Text pieces
+ * (no external renderer, works offline). Math goes between dollar signs:
+ *
+ *   "What is $x^2 + y_1$?"     superscripts and subscripts (^{..} / _{..} for groups)
+ *   "Simplify $\frac{3}{6}$"   fractions
+ *   "$\sqrt{16} = 4$"          square roots
+ *   "$5 \times 3$"             symbols (\times, \div, \pm, \pi, \le, \ge, \neq, ...)
+ *
+ * Use \$ for a literal dollar sign. Text without math renders as a single
+ * word-wrapped PIXI.Text, exactly like before.
+ */
+
+import * as PIXI from 'pixi.js';
+import { GAME_CONFIG } from '../config/constants';
+
+export interface MathTextConfig {
+  text: string;
+  fontSize?: number;
+  fill?: number;
+  wordWrapWidth?: number; // Omit to keep everything on one line
+  align?: 'left' | 'center';
+}
+
+/**
+ * Laid-out piece of math; baseline is measured from the top
+ */
+interface MathBox {
+  view: PIXI.Container;
+  width: number;
+  height: number;
+  baseline: number;
+}
+
+const SYMBOLS: Record<string, string> = {
+  times: '×',
+  div: '÷',
+  pm: '±',
+  cdot: '·',
+  pi: 'π',
+  theta: 'θ',
+  alpha: 'α',
+  beta: 'β',
+  le: '≤',
+  leq: '≤',
+  ge: '≥',
+  geq: '≥',
+  neq: '≠',
+  approx: '≈',
+  infty: '∞',
+  degree: '°',
+};
+
+const SCRIPT_SCALE = 0.7; // Superscript/subscript size
+const FRACTION_SCALE = 0.8; // Numerator/denominator size
+
+/**
+ * True if the text contains inline math (unescaped $)
+ */
+export function hasMathMarkup(text: string): boolean {
+  return /(^|[^\\])\$/.test(text);
+}
+
+export class MathText extends PIXI.Container {
+  private config: Required<MathTextConfig>;
+
+  constructor(config: MathTextConfig) {
+    super();
+
+    // Apply defaults
+    this.config = {
+      text: config.text,
+      fontSize: config.fontSize ?? 18,
+      fill: config.fill ?? GAME_CONFIG.COLORS.TEXT,
+      wordWrapWidth: config.wordWrapWidth ?? Infinity,
+      align: config.align ?? 'left',
+    };
+
+    if (hasMathMarkup(this.config.text)) {
+      this.layoutLines();
+    } else {
+      this.addChild(this.createPlainText());
+    }
+  }
+
+  private createPlainText(): PIXI.Text {
+    const { text, fontSize, fill, wordWrapWidth, align } = this.config;
+    return new PIXI.Text({
+      text: text.replace(/\\\$/g, '$'),
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize,
+        fill,
+        align,
+        wordWrap: Number.isFinite(wordWrapWidth),
+        wordWrapWidth: Number.isFinite(wordWrapWidth) ? wordWrapWidth : undefined,
+      },
+    });
+  }
+
+  /**
+   * Break the text into words and math pieces and flow them into lines
+   */
+  private layoutLines(): void {
+    const { fontSize, wordWrapWidth, align } = this.config;
+    const spaceWidth = this.measure(' ', fontSize).width;
+    const lineGap = Math.round(fontSize * 0.4);
+
+    // Each line is a list of boxes, with whether a space comes before each one
+    const lines: { box: MathBox; spaced: boolean }[][] = [[]];
+    let lineWidth = 0;
+    let pendingSpace = false;
+
+    const place = (box: MathBox) => {
+      const line = lines[lines.length - 1];
+      const gap = line.length > 0 && pendingSpace ? spaceWidth : 0;
+
+      if (line.length > 0 && lineWidth + gap + box.width > wordWrapWidth) {
+        lines.push([{ box, spaced: false }]);
+        lineWidth = box.width;
+      } else {
+        line.push({ box, spaced: gap > 0 });
+        lineWidth += gap + box.width;
+      }
+      pendingSpace = false;
+    };
+
+    this.splitSegments(this.config.text).forEach((segment) => {
+      if (segment.isMath) {
+        place(this.layoutMath(segment.text, fontSize));
+        return;
+      }
+
+      // Plain text: words are the unit of wrapping, explicit newlines break lines
+      segment.text.split('\n').forEach((paragraph, paragraphIndex) => {
+        if (paragraphIndex > 0) {
+          lines.push([]);
+          lineWidth = 0;
+          pendingSpace = false;
+        }
+
+        paragraph.split(/( +)/).forEach((word) => {
+          if (word === '') return;
+          if (word.trim() === '') {
+            pendingSpace = true;
+            return;
+          }
+          place(this.createTextBox(word, fontSize));
+        });
+      });
+    });
+
+    // Position the boxes, lining up baselines on each line
+    let y = 0;
+    lines.forEach((line) => {
+      const ascent = line.length > 0 ? Math.max(...line.map(({ box }) => box.baseline)) : fontSize;
+      const descent = Math.max(0, ...line.map(({ box }) => box.height - box.baseline));
+      const width = line.reduce((sum, { box, spaced }) => sum + box.width + (spaced ? spaceWidth : 0), 0);
+
+      let x = align === 'center' && Number.isFinite(wordWrapWidth) ? (wordWrapWidth - width) / 2 : 0;
+      line.forEach(({ box, spaced }) => {
+        if (spaced) x += spaceWidth;
+        box.view.x = x;
+        box.view.y = y + ascent - box.baseline;
+        this.addChild(box.view);
+        x += box.width;
+      });
+
+      y += ascent + descent + lineGap;
+    });
+  }
+
+  /**
+   * Split into plain text and $math$ segments
+   */
+  private splitSegments(text: string): { text: string; isMath: boolean }[] {
+    const segments: { text: string; isMath: boolean }[] = [];
+    let current = '';
+    let isMath = false;
+
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\\' && text[i + 1] === '$') {
+        current += '$';
+        i++;
+      } else if (text[i] === '$') {
+        if (current) segments.push({ text: current, isMath });
+        current = '';
+        isMath = !isMath;
+      } else {
+        current += text[i];
+      }
+    }
+
+    // An unclosed $ is shown as typed
+    if (current) {
+      segments.push(isMath ? { text: `$${current}`, isMath: false } : { text: current, isMath });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Lay out a math expression as one row
+   */
+  private layoutMath(source: string, fontSize: number): MathBox {
+    let index = 0;
+
+    // Single character or {group} after ^, _, \frac, \sqrt
+    const readArgument = (size: number): MathBox => {
+      while (source[index] === ' ') index++;
+      if (source[index] === '{') {
+        index++;
+        return readRow(size, '}');
+      }
+      const char = source[index] ?? '';
+      index++;
+      return this.createTextBox(char, size);
+    };
+
+    const readRow = (size: number, terminator?: string): MathBox => {
+      const boxes: MathBox[] = [];
+      let run = '';
+
+      const flushRun = () => {
+        if (run) boxes.push(this.createTextBox(run, size));
+        run = '';
+      };
+
+      while (index < source.length) {
+        const char = source[index];
+
+        if (char === terminator) {
+          index++;
+          break;
+        }
+
+        if (char === '^' || char === '_') {
+          flushRun();
+          index++;
+          const script = readArgument(size * SCRIPT_SCALE);
+          boxes.push(char === '^' ? this.raise(script, size * 0.4) : this.raise(script, -size * 0.25));
+        } else if (char === '{') {
+          flushRun();
+          index++;
+          boxes.push(readRow(size, '}'));
+        } else if (char === '\\') {
+          const command = /^\\([a-zA-Z]+)/.exec(source.slice(index))?.[1];
+          if (!command) {
+            // Escaped character such as \{ or \%
+            run += source[index + 1] ?? '';
+            index += 2;
+            continue;
+          }
+
+          index += command.length + 1;
+          if (command === 'frac') {
+            flushRun();
+            const numerator = readArgument(size * FRACTION_SCALE);
+            const denominator = readArgument(size * FRACTION_SCALE);
+            boxes.push(this.createFraction(numerator, denominator, size));
+          } else if (command === 'sqrt') {
+            flushRun();
+            boxes.push(this.createRoot(readArgument(size), size));
+          } else {
+            run += SYMBOLS[command] ?? command;
+          }
+        } else {
+          run += char;
+          index++;
+        }
+      }
+
+      flushRun();
+      return this.createRow(boxes);
+    };
+
+    return readRow(fontSize);
+  }
+
+  private measure(text: string, fontSize: number): PIXI.CanvasTextMetrics {
+    return PIXI.CanvasTextMetrics.measureText(text, new PIXI.TextStyle({
+      fontFamily: GAME_CONFIG.FONTS.PIXEL,
+      fontSize,
+    }));
+  }
+
+  private createTextBox(text: string, fontSize: number): MathBox {
+    const view = new PIXI.Text({
+      text,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize,
+        fill: this.config.fill,
+      },
+    });
+    const metrics = this.measure(text, fontSize);
+
+    return {
+      view,
+      width: view.width,
+      height: view.height,
+      baseline: metrics.fontProperties.ascent,
+    };
+  }
+
+  /**
+   * Boxes side by side on a shared baseline
+   */
+  private createRow(boxes: MathBox[]): MathBox {
+    const view = new PIXI.Container();
+    const baseline = Math.max(0, ...boxes.map(box => box.baseline));
+    const descent = Math.max(0, ...boxes.map(box => box.height - box.baseline));
+
+    let x = 0;
+    boxes.forEach((box) => {
+      box.view.x = x;
+      box.view.y = baseline - box.baseline;
+      view.addChild(box.view);
+      x += box.width;
+    });
+
+    return { view, width: x, height: baseline + descent, baseline };
+  }
+
+  /**
+   * Shift a box up (positive) or down (negative) relative to the baseline
+   */
+  private raise(box: MathBox, amount: number): MathBox {
+    return { ...box, baseline: box.baseline + amount };
+  }
+
+  private createFraction(numerator: MathBox, denominator: MathBox, fontSize: number): MathBox {
+    const view = new PIXI.Container();
+    const padding = 2;
+    const width = Math.max(numerator.width, denominator.width) + padding * 2;
+    const barY = numerator.height + padding;
+
+    numerator.view.x = (width - numerator.width) / 2;
+    view.addChild(numerator.view);
+
+    const bar = new PIXI.Graphics();
+    bar.rect(0, barY, width, 2);
+    bar.fill({ color: this.config.fill });
+    view.addChild(bar);
+
+    denominator.view.x = (width - denominator.width) / 2;
+    denominator.view.y = barY + 2 + padding;
+    view.addChild(denominator.view);
+
+    return {
+      view,
+      width,
+      height: denominator.view.y + denominator.height,
+      baseline: barY + fontSize * 0.3, // Bar sits around the middle of the surrounding text
+    };
+  }
+
+  private createRoot(radicand: MathBox, fontSize: number): MathBox {
+    const view = new PIXI.Container();
+    const signWidth = Math.round(fontSize * 0.6);
+    const top = 4;
+    const height = radicand.height + top;
+
+    const sign = new PIXI.Graphics();
+    sign.moveTo(0, height * 0.6);
+    sign.lineTo(signWidth * 0.3, height * 0.5);
+    sign.lineTo(signWidth * 0.6, height);
+    sign.lineTo(signWidth, 1);
+    sign.lineTo(signWidth + radicand.width + 2, 1);
+    sign.stroke({ color: this.config.fill, width: 2 });
+    view.addChild(sign);
+
+    radicand.view.x = signWidth + 2;
+    radicand.view.y = top;
+    view.addChild(radicand.view);
+
+    return {
+      view,
+      width: signWidth + radicand.width + 4,
+      height,
+      baseline: radicand.baseline + top,
+    };
+  }
+}
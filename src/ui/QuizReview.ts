@@ -0,0 +1,365 @@
+/**
+ * Quiz Review Component (PixiJS)
+ *
+ * Walks through a submitted quiz question by question:
+ * the student's answer against the correct one, points earned and the
+ * explanation. Can be limited to the questions the student missed.
+ */
+
+import * as PIXI from 'pixi.js';
+import { Button } from './Button';
+import { MathText } from './MathText';
+import { GAME_CONFIG } from '../config/constants';
+import type { QuizAnswerResult, QuizQuestion } from '../api/types';
+
+export interface QuizReviewConfig {
+  width: number;
+  height: number;
+  questions: QuizQuestion[];
+  results: QuizAnswerResult[];
+  selectedAnswers: Map<number, number[]>; // questionId -> choice IDs the student picked
+  textAnswers: Map<number, string>; // questionId -> typed answer (fill_blank)
+  onClose?: () => void;
+}
+
+const CHOICE_HEIGHT = 40;
+const CHOICE_GAP = 8;
+
+export class QuizReview extends PIXI.Container {
+  private config: QuizReviewConfig;
+  private resultsById: Map<number, QuizAnswerResult>;
+  private index: number = 0;
+  private missedOnly: boolean = false;
+
+  private content: PIXI.Container = new PIXI.Container();
+  private progressText: PIXI.Text;
+  private prevButton: Button;
+  private nextButton: Button;
+  private filterButton: Button;
+
+  constructor(config: QuizReviewConfig) {
+    super();
+
+    this.config = config;
+    this.resultsById = new Map(config.results.map(result => [result.question_id, result]));
+
+    this.addChild(this.content);
+
+    // Navigation along the bottom
+    const navY = config.height - 60;
+
+    this.prevButton = new Button({
+      text: '< PREV',
+      width: 130,
+      height: 44,
+      fontSize: 12,
+      onClick: () => this.step(-1),
+    });
+    this.prevButton.y = navY;
+    this.addChild(this.prevButton);
+
+    this.progressText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      },
+    });
+    this.progressText.anchor.set(0.5);
+    this.progressText.x = config.width / 2;
+    this.progressText.y = navY - 20;
+    this.addChild(this.progressText);
+
+    this.filterButton = new Button({
+      text: 'MISSED ONLY',
+      width: 200,
+      height: 44,
+      fontSize: 12,
+      backgroundColor: GAME_CONFIG.COLORS.WARNING,
+      onClick: () => this.toggleMissedOnly(),
+    });
+    this.filterButton.x = config.width / 2 - 210;
+    this.filterButton.y = navY;
+    this.addChild(this.filterButton);
+
+    const closeButton = new Button({
+      text: 'RESULTS',
+      width: 200,
+      height: 44,
+      fontSize: 12,
+      onClick: () => this.config.onClose?.(),
+    });
+    closeButton.x = config.width / 2 + 10;
+    closeButton.y = navY;
+    this.addChild(closeButton);
+
+    this.nextButton = new Button({
+      text: 'NEXT >',
+      width: 130,
+      height: 44,
+      fontSize: 12,
+      onClick: () => this.step(1),
+    });
+    this.nextButton.x = config.width - 130;
+    this.nextButton.y = navY;
+    this.addChild(this.nextButton);
+
+    this.render();
+  }
+
+  /**
+   * Questions being reviewed (all, or only the missed ones)
+   */
+  private getVisibleQuestions(): QuizQuestion[] {
+    if (!this.missedOnly) {
+      return this.config.questions;
+    }
+    return this.config.questions.filter(question => !this.resultsById.get(question.id)?.is_correct);
+  }
+
+  private step(delta: number): void {
+    this.index += delta;
+    this.render();
+  }
+
+  private toggleMissedOnly(): void {
+    this.missedOnly = !this.missedOnly;
+    this.index = 0;
+    this.filterButton.setText(this.missedOnly ? 'SHOW ALL' : 'MISSED ONLY');
+    this.render();
+  }
+
+  private render(): void {
+    const questions = this.getVisibleQuestions();
+    this.index = Math.max(0, Math.min(this.index, questions.length - 1));
+
+    this.content.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const missedCount = this.config.questions.filter(
+      question => !this.resultsById.get(question.id)?.is_correct
+    ).length;
+
+    if (questions.length === 0) {
+      this.progressText.text = 'No missed questions';
+      this.renderMessage('You got every question right!');
+    } else {
+      const question = questions[this.index];
+      const position = this.config.questions.indexOf(question) + 1;
+      this.progressText.text = this.missedOnly
+        ? `Missed ${this.index + 1}/${questions.length} (question ${position})`
+        : `Question ${position}/${questions.length} - ${missedCount} missed`;
+      this.renderQuestion(question);
+    }
+
+    this.prevButton.setEnabled(this.index > 0);
+    this.nextButton.setEnabled(this.index < questions.length - 1);
+    this.filterButton.setEnabled(missedCount > 0 || this.missedOnly);
+  }
+
+  private renderMessage(message: string): void {
+    const text = new PIXI.Text({
+      text: message,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 18,
+        fill: GAME_CONFIG.COLORS.SUCCESS,
+      },
+    });
+    text.anchor.set(0.5);
+    text.x = this.config.width / 2;
+    text.y = this.config.height / 2 - 60;
+    this.content.addChild(text);
+  }
+
+  private renderQuestion(question: QuizQuestion): void {
+    const { width } = this.config;
+    const result = this.resultsById.get(question.id);
+    const isCorrect = result?.is_correct ?? false;
+
+    // Verdict and points
+    const verdictText = new PIXI.Text({
+      text: isCorrect ? 'CORRECT' : 'INCORRECT',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 18,
+        fill: isCorrect ? GAME_CONFIG.COLORS.SUCCESS : GAME_CONFIG.COLORS.DANGER,
+      },
+    });
+    this.content.addChild(verdictText);
+
+    const pointsText = new PIXI.Text({
+      text: `${result?.points_earned ?? 0}/${question.points} points`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.WARNING,
+      },
+    });
+    pointsText.anchor.set(1, 0);
+    pointsText.x = width;
+    pointsText.y = 4;
+    this.content.addChild(pointsText);
+
+    const questionText = new MathText({
+      text: question.question_text,
+      fontSize: 16,
+      fill: GAME_CONFIG.COLORS.TEXT,
+      wordWrapWidth: width,
+    });
+    questionText.y = 36;
+    this.content.addChild(questionText);
+
+    let yOffset = questionText.y + questionText.height + 20;
+
+    if (question.question_type === 'fill_blank') {
+      yOffset = this.renderTextAnswer(question, result, yOffset);
+    } else {
+      yOffset = this.renderChoices(question, result, yOffset);
+    }
+
+    if (result?.explanation) {
+      this.renderExplanation(result.explanation, yOffset + 10);
+    }
+  }
+
+  /**
+   * Choices with the student's pick and the correct ones marked
+   * @returns y below the last choice
+   */
+  private renderChoices(question: QuizQuestion, result: QuizAnswerResult | undefined, y: number): number {
+    const selected = this.config.selectedAnswers.get(question.id) ?? [];
+    const correct = result?.correct_answer ?? [];
+    const sortedChoices = [...question.choices].sort((a, b) => a.order_index - b.order_index);
+
+    sortedChoices.forEach((choice, index) => {
+      const isSelected = selected.includes(choice.id);
+      const isCorrect = correct.includes(choice.id);
+
+      let borderColor = 0x8B9BB4;
+      let label = '';
+      if (isCorrect && isSelected) {
+        borderColor = GAME_CONFIG.COLORS.SUCCESS;
+        label = 'YOUR ANSWER - CORRECT';
+      } else if (isCorrect) {
+        borderColor = GAME_CONFIG.COLORS.SUCCESS;
+        label = 'CORRECT ANSWER';
+      } else if (isSelected) {
+        borderColor = GAME_CONFIG.COLORS.DANGER;
+        label = 'YOUR ANSWER';
+      }
+
+      const row = new PIXI.Container();
+      row.y = y + index * (CHOICE_HEIGHT + CHOICE_GAP);
+
+      const background = new PIXI.Graphics();
+      background.rect(0, 0, this.config.width, CHOICE_HEIGHT);
+      background.fill({ color: isCorrect || isSelected ? borderColor : 0x2a2a3e, alpha: isCorrect || isSelected ? 0.25 : 1 });
+      background.rect(0, 0, this.config.width, CHOICE_HEIGHT);
+      background.stroke({ color: borderColor, width: isCorrect || isSelected ? 3 : 1 });
+      row.addChild(background);
+
+      const choiceText = new MathText({
+        text: choice.choice_text,
+        fontSize: 14,
+        fill: GAME_CONFIG.COLORS.TEXT,
+      });
+      choiceText.x = 12;
+      choiceText.y = (CHOICE_HEIGHT - choiceText.height) / 2;
+      row.addChild(choiceText);
+
+      if (label) {
+        const labelText = new PIXI.Text({
+          text: label,
+          style: {
+            fontFamily: GAME_CONFIG.FONTS.PIXEL,
+            fontSize: 10,
+            fill: borderColor,
+          },
+        });
+        labelText.anchor.set(1, 0.5);
+        labelText.x = this.config.width - 12;
+        labelText.y = CHOICE_HEIGHT / 2;
+        row.addChild(labelText);
+      }
+
+      this.content.addChild(row);
+    });
+
+    return y + sortedChoices.length * (CHOICE_HEIGHT + CHOICE_GAP);
+  }
+
+  /**
+   * The student's typed answer (and the expected one, if the server sent it)
+   * @returns y below the answer
+   */
+  private renderTextAnswer(question: QuizQuestion, result: QuizAnswerResult | undefined, y: number): number {
+    const typed = this.config.textAnswers.get(question.id)?.trim() || '(no answer)';
+    const isCorrect = result?.is_correct ?? false;
+
+    const answerText = new PIXI.Text({
+      text: `Your answer: ${typed}`,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 14,
+        fill: isCorrect ? GAME_CONFIG.COLORS.SUCCESS : GAME_CONFIG.COLORS.DANGER,
+      },
+    });
+    answerText.y = y;
+    this.content.addChild(answerText);
+
+    let bottom = y + answerText.height;
+
+    if (!isCorrect && result?.correct_text) {
+      const correctText = new PIXI.Text({
+        text: `Correct answer: ${result.correct_text}`,
+        style: {
+          fontFamily: GAME_CONFIG.FONTS.PIXEL,
+          fontSize: 14,
+          fill: GAME_CONFIG.COLORS.SUCCESS,
+        },
+      });
+      correctText.y = bottom + 10;
+      this.content.addChild(correctText);
+      bottom = correctText.y + correctText.height;
+    }
+
+    return bottom + 10;
+  }
+
+  private renderExplanation(explanation: string, y: number): void {
+    const text = new PIXI.Text({
+      text: explanation,
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 12,
+        fill: GAME_CONFIG.COLORS.TEXT,
+        lineHeight: 20,
+        wordWrap: true,
+        wordWrapWidth: this.config.width - 24,
+      },
+    });
+    text.x = 12;
+    text.y = y + 30;
+
+    const box = new PIXI.Graphics();
+    box.rect(0, y, this.config.width, text.height + 42);
+    box.fill({ color: 0x2a2a3e });
+    box.stroke({ color: GAME_CONFIG.COLORS.SECONDARY, width: 2 });
+    this.content.addChild(box);
+
+    const heading = new PIXI.Text({
+      text: 'EXPLANATION',
+      style: {
+        fontFamily: GAME_CONFIG.FONTS.PIXEL,
+        fontSize: 11,
+        fill: GAME_CONFIG.COLORS.SECONDARY,
+      },
+    });
+    heading.x = 12;
+    heading.y = y + 10;
+    this.content.addChild(heading);
+
+    this.content.addChild(text);
+  }
+}
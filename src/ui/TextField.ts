@@ -18,6 +18,7 @@ export interface TextFieldConfig {
   borderColor?: number;
   textColor?: number;
   fontSize?: number;
+  onChange?: (value: string) => void;
 }
 
 export class TextField extends PIXI.Container {
@@ -39,6 +40,7 @@ export class TextField extends PIXI.Container {
       borderColor: config.borderColor ?? GAME_CONFIG.COLORS.PRIMARY,
       textColor: config.textColor ?? GAME_CONFIG.COLORS.TEXT,
       fontSize: config.fontSize ?? 16,
+      onChange: config.onChange ?? (() => {}),
     };
 
     // Create background
@@ -79,6 +81,10 @@ export class TextField extends PIXI.Container {
       this.drawBackground(this.config.borderColor);
     });
 
+    input.addEventListener('input', () => {
+      this.config.onChange(input.value);
+    });
+
     document.body.appendChild(input);
 
     return input;